@@ -0,0 +1,74 @@
+import {
+  API_VERSION,
+  errorResponse,
+  readViewerId,
+  rejectionResponse,
+  validateChatRequest,
+  type ChatResponseV1,
+} from "@/lib/api/v1";
+import { toChatError } from "@/lib/chat/errors";
+import { checkMessages, clientAddress, getChatLimits, getRateLimiter, readJsonBody } from "@/lib/chat/limits";
+import { resolveRegion } from "@/lib/chat/region";
+import { answerChat } from "@/lib/chat/service";
+import { collectText, toAnswerPayload, toEventStream } from "@/lib/chat/stream";
+
+// POST /api/v1/chat: see lib/api/v1/types.ts for the contract.
+export async function POST(req: Request) {
+  try {
+    const limits = getChatLimits();
+    const allowed = getRateLimiter(limits).take(clientAddress(req.headers, limits.trustedProxies));
+    if (allowed.status === "rejected") return rejectionResponse(allowed);
+
+    const body = await readJsonBody(req, limits.maxBodyBytes);
+    if (body.status === "rejected") return rejectionResponse(body);
+
+    const validation = validateChatRequest(body.value);
+    if (validation.status === "invalid") {
+      return errorResponse({
+        code: "INVALID_REQUEST",
+        message: "The request doesn't match the chat API schema.",
+        issues: validation.issues,
+      });
+    }
+    const { messages, activeMovieIds = [], options = {} } = validation.request;
+    const sized = checkMessages(messages, limits);
+    if (sized.status === "rejected") return rejectionResponse(sized);
+
+    const { answer, intent, headers } = await answerChat(
+      {
+        messages,
+        activeMovieIds,
+        region: resolveRegion(options.region, req.headers.get("accept-language")),
+        resultLimit: options.limit,
+        viewerId: readViewerId(req.headers),
+      },
+      req.signal
+    );
+
+    if (answer.noMatch) {
+      return errorResponse({ code: "NO_MATCH", message: await collectText(answer.text) }, headers);
+    }
+
+    if (req.headers.get("accept")?.includes("text/event-stream")) {
+      return new Response(toEventStream(answer.text, answer.movies), {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+          ...headers,
+        },
+      });
+    }
+
+    const response: ChatResponseV1 = {
+      apiVersion: API_VERSION,
+      intent: intent.kind,
+      ...(await toAnswerPayload(answer.text, answer.movies)),
+    };
+    return Response.json(response, { headers });
+  } catch (error) {
+    console.error("Error in POST /api/v1/chat:", error);
+    const { code, message } = toChatError(error);
+    return errorResponse({ code, message });
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  errorResponse,
+  isMovieListName,
+  listsResponse,
+  readViewerId,
+  rejectionResponse,
+  unknownListResponse,
+} from "@/lib/api/v1";
+import { toChatError } from "@/lib/chat/errors";
+import { clientAddress, getChatLimits, getListRateLimiter } from "@/lib/chat/limits";
+import { getMovieListStore } from "@/lib/lists";
+
+// DELETE /api/v1/lists/{list}/{tmdbId}: removes a movie and returns the updated lists.
+export async function DELETE(req: Request, { params }: { params: Promise<{ list: string; tmdbId: string }> }) {
+  const { list, tmdbId } = await params;
+  if (!isMovieListName(list)) return unknownListResponse(list);
+  try {
+    const { trustedProxies } = getChatLimits();
+    const allowed = getListRateLimiter().take(clientAddress(req.headers, trustedProxies));
+    if (allowed.status === "rejected") return rejectionResponse(allowed);
+
+    // Without a viewer cookie there is nothing on either list.
+    const viewerId = readViewerId(req.headers);
+    const store = getMovieListStore();
+    if (!viewerId || !(await store.remove(viewerId, list, tmdbId))) {
+      return errorResponse({ code: "NO_MATCH", message: `Movie ${tmdbId} isn't on your ${list === "seen" ? "seen list" : "watchlist"}.` });
+    }
+    return listsResponse(await store.getLists(viewerId));
+  } catch (error) {
+    console.error(`Error in DELETE /api/v1/lists/${list}/${tmdbId}:`, error);
+    const { code, message } = toChatError(error);
+    return errorResponse({ code, message });
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  errorResponse,
+  getViewer,
+  isMovieListName,
+  listsResponse,
+  rejectionResponse,
+  unknownListResponse,
+  validateAddToListRequest,
+  withViewerCookie,
+} from "@/lib/api/v1";
+import { storeUnavailable, toChatError } from "@/lib/chat/errors";
+import { clientAddress, getChatLimits, getListRateLimiter, readJsonBody } from "@/lib/chat/limits";
+import { addToList, createListEntry, getMovieListStore, type MovieListEntry } from "@/lib/lists";
+
+// POST /api/v1/lists/{list}: adds a movie by TMDB id (see AddToListRequestV1)
+// and returns the updated lists.
+export async function POST(req: Request, { params }: { params: Promise<{ list: string }> }) {
+  const { list } = await params;
+  if (!isMovieListName(list)) return unknownListResponse(list);
+  try {
+    const limits = getChatLimits();
+    const allowed = getListRateLimiter().take(clientAddress(req.headers, limits.trustedProxies));
+    if (allowed.status === "rejected") return rejectionResponse(allowed);
+
+    const body = await readJsonBody(req, limits.maxBodyBytes);
+    if (body.status === "rejected") return rejectionResponse(body);
+
+    const validation = validateAddToListRequest(list, body.value);
+    if (validation.status === "invalid") {
+      return errorResponse({
+        code: "INVALID_REQUEST",
+        message: "The request doesn't match the lists API schema.",
+        issues: validation.issues,
+      });
+    }
+
+    const { tmdbId, liked } = validation.request;
+    let entry: MovieListEntry | null;
+    try {
+      entry = await createListEntry(list, tmdbId, { liked });
+    } catch (error) {
+      throw storeUnavailable(error);
+    }
+    if (!entry) {
+      return errorResponse({ code: "NO_MATCH", message: `There's no movie with TMDB id ${tmdbId} in the database.` });
+    }
+
+    const viewer = getViewer(req.headers);
+    await addToList(viewer.id, list, entry);
+    return withViewerCookie(listsResponse(await getMovieListStore().getLists(viewer.id)), viewer);
+  } catch (error) {
+    console.error(`Error in POST /api/v1/lists/${list}:`, error);
+    const { code, message } = toChatError(error);
+    return errorResponse({ code, message });
+  }
+}
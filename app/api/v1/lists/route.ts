@@ -0,0 +1,16 @@
+import { errorResponse, listsResponse, readViewerId } from "@/lib/api/v1";
+import { toChatError } from "@/lib/chat/errors";
+import { emptyLists, getMovieListStore } from "@/lib/lists";
+
+// GET /api/v1/lists: the viewer's watchlist and seen-list. A browser without
+// a viewer cookie has two empty lists; the cookie is set on its first change.
+export async function GET(req: Request) {
+  try {
+    const viewerId = readViewerId(req.headers);
+    return listsResponse(viewerId ? await getMovieListStore().getLists(viewerId) : emptyLists());
+  } catch (error) {
+    console.error("Error in GET /api/v1/lists:", error);
+    const { code, message } = toChatError(error);
+    return errorResponse({ code, message });
+  }
+}
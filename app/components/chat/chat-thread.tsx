@@ -0,0 +1,74 @@
+import * as React from 'react';
+import type { MovieCard } from '@/lib/api/v1';
+import { Button } from '@/app/components/ui/button';
+import { Markdown } from './markdown';
+import { MovieCardView, type ListActions } from './movie-card';
+
+// A question and the answer to it. `activeMovieIds` comes with the finished
+// answer and is sent with the next question so follow-ups resolve.
+export type ChatTurn = {
+  id: number;
+  question: string;
+  answer: string;
+  movies: MovieCard[];
+  activeMovieIds: string[];
+  status: 'pending' | 'streaming' | 'done' | 'stopped' | 'error';
+  error?: string;
+};
+
+type Props = {
+  turns: ChatTurn[];
+  // Disables retries while another answer is on its way
+  busy: boolean;
+  onRetry: (turn: ChatTurn) => void;
+  listActions?: ListActions;
+};
+
+function AssistantMessage({ turn, busy, onRetry, listActions }: { turn: ChatTurn } & Omit<Props, 'turns'>) {
+  const retryable = turn.status === 'done' || turn.status === 'stopped' || turn.status === 'error';
+
+  return (
+    <div className={`message assistant ${turn.status}`} aria-busy={turn.status === 'pending' || turn.status === 'streaming'}>
+      {turn.movies.length > 0 && (
+        <div className="movie-cards">
+          {turn.movies.map((movie) => <MovieCardView key={movie.id} movie={movie} {...listActions} />)}
+        </div>
+      )}
+
+      {turn.status === 'pending' && <div className="thinking">Thinking…</div>}
+      {turn.answer && <Markdown text={turn.answer} movies={turn.movies} />}
+      {turn.status === 'stopped' && <div className="message-note">Stopped.</div>}
+      {turn.status === 'error' && <div className="message-error" role="alert">{turn.error}</div>}
+
+      {retryable && (
+        <div className="message-actions">
+          <Button variant="ghost" size="sm" className="retry-button" disabled={busy} onClick={() => onRetry(turn)}>
+            ↻ Retry
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ChatThread({ turns, busy, onRetry, listActions }: Props) {
+  const endRef = React.useRef<HTMLDivElement>(null);
+  const last = turns[turns.length - 1];
+
+  // Follow the newest answer as it streams in
+  React.useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [turns.length, last?.answer, last?.status]);
+
+  return (
+    <div className="thread" aria-live="polite">
+      {turns.map((turn) => (
+        <React.Fragment key={turn.id}>
+          <div className="message user">{turn.question}</div>
+          <AssistantMessage turn={turn} busy={busy} onRetry={onRetry} listActions={listActions} />
+        </React.Fragment>
+      ))}
+      <div ref={endRef} />
+    </div>
+  );
+}
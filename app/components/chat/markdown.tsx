@@ -0,0 +1,72 @@
+import * as React from 'react';
+import type { MovieCard } from '@/lib/api/v1';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/chat/markdown';
+
+// Renders an answer's markdown as React elements, so text is always escaped.
+// Citation markers link to the cited movie's TMDB page.
+
+type Props = {
+  text: string;
+  movies: MovieCard[];
+};
+
+function renderInline(nodes: MarkdownInline[], movies: MovieCard[]): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={i} />;
+      case 'code':
+        return <code key={i}>{node.text}</code>;
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children, movies)}</strong>;
+      case 'emphasis':
+        return <em key={i}>{renderInline(node.children, movies)}</em>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noreferrer noopener">
+            {renderInline(node.children, movies)}
+          </a>
+        );
+      case 'citation': {
+        const movie = movies.find((m) => m.marker === node.marker);
+        return movie ? (
+          <a key={i} className="citation" href={movie.source} target="_blank" rel="noreferrer" title={movie.title}>
+            [{node.marker}]
+          </a>
+        ) : (
+          <span key={i} className="citation">[{node.marker}]</span>
+        );
+      }
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, movies: MovieCard[], key: number): React.ReactNode {
+  switch (block.kind) {
+    case 'heading': {
+      const Heading = `h${block.level + 2}` as 'h3' | 'h4' | 'h5';
+      return <Heading key={key}>{renderInline(block.children, movies)}</Heading>;
+    }
+    case 'paragraph':
+      return <p key={key}>{renderInline(block.children, movies)}</p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={key}>
+          {block.items.map((item, i) => <li key={i}>{renderInline(item, movies)}</li>)}
+        </List>
+      );
+    }
+    case 'quote':
+      return <blockquote key={key}>{block.children.map((child, i) => renderBlock(child, movies, i))}</blockquote>;
+    case 'rule':
+      return <hr key={key} />;
+  }
+}
+
+export function Markdown({ text, movies }: Props) {
+  const blocks = React.useMemo(() => parseMarkdown(text), [text]);
+  return <div className="markdown">{blocks.map((block, i) => renderBlock(block, movies, i))}</div>;
+}
@@ -0,0 +1,95 @@
+import type { MovieCard, MovieListEntry, MovieListName, MovieListsResponseV1 } from '@/lib/api/v1';
+import { formatRuntime } from '@/lib/chat/format';
+import { Button } from '@/app/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/app/components/ui/card';
+
+// One of the movies an answer cites, from the structured `movies` event
+// rather than the answer text, with actions for the viewer's lists.
+
+// Adds the movie to a list (as liked or not, for the seen list) or removes it.
+export type ListChange = { list: MovieListName; add: boolean; liked?: boolean };
+
+export type ListActions = {
+  lists: MovieListsResponseV1 | null;
+  onListChange: (movie: MovieCard, change: ListChange) => void;
+};
+
+function findEntry(entries: MovieListEntry[] | undefined, id: string): MovieListEntry | undefined {
+  return entries?.find((entry) => entry.tmdbId === id);
+}
+
+function ListButtons({ movie, lists, onListChange }: { movie: MovieCard } & ListActions) {
+  const onWatchlist = Boolean(findEntry(lists?.watchlist, movie.id));
+  const seen = findEntry(lists?.seen, movie.id);
+  const change = (update: ListChange) => () => onListChange(movie, update);
+
+  return (
+    <div className="movie-card-actions">
+      <Button
+        variant="outline"
+        size="sm"
+        className={`list-button ${onWatchlist ? 'active' : ''}`}
+        aria-pressed={onWatchlist}
+        disabled={!lists}
+        onClick={change({ list: 'watchlist', add: !onWatchlist })}
+      >
+        {onWatchlist ? '✓ Watchlist' : '+ Watchlist'}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        className={`list-button ${seen ? 'active' : ''}`}
+        aria-pressed={Boolean(seen)}
+        disabled={!lists}
+        onClick={change({ list: 'seen', add: !seen })}
+      >
+        {seen ? '✓ Seen' : 'Seen it'}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        className={`list-button ${seen?.liked ? 'active' : ''}`}
+        aria-pressed={Boolean(seen?.liked)}
+        aria-label="Liked it"
+        title="Liked it: recommend more like this"
+        disabled={!lists}
+        onClick={change({ list: 'seen', add: true, liked: !seen?.liked })}
+      >
+        👍
+      </Button>
+    </div>
+  );
+}
+
+export function MovieCardView({ movie, ...listActions }: { movie: MovieCard } & Partial<ListActions>) {
+  const details = [
+    movie.year,
+    formatRuntime(movie.runtime),
+    movie.genres?.slice(0, 3).join(', ') ?? '',
+  ].filter(Boolean);
+  // Only movies with a TMDB id can go on a list
+  const listable = listActions.onListChange && /^\d+$/.test(movie.id);
+
+  return (
+    <Card className="movie-card">
+      <CardHeader className="movie-card-header">
+        <CardTitle className="movie-card-title">
+          <span className="citation">[{movie.marker}]</span> {movie.title}
+        </CardTitle>
+        <CardDescription className="movie-card-details">{details.join(' · ')}</CardDescription>
+      </CardHeader>
+      <CardContent className="movie-card-content">
+        {movie.rating ? <div>⭐ {movie.rating.toFixed(1)}/10</div> : null}
+        <div>
+          📺 {movie.where_to_watch.length > 0 ? movie.where_to_watch.join(', ') : 'No streaming providers listed'}
+        </div>
+        {listable && <ListButtons movie={movie} lists={listActions.lists ?? null} onListChange={listActions.onListChange} />}
+      </CardContent>
+      <CardFooter className="movie-card-footer">
+        <Button asChild variant="link" size="sm" className="movie-card-link">
+          <a href={movie.source} target="_blank" rel="noreferrer">View on TMDB</a>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
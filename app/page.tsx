@@ -1,11 +1,49 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import type {
+  AddToListRequestV1,
+  ChatErrorResponseV1,
+  ChatMessageV1,
+  ChatRequestV1,
+  ChatStreamEventV1,
+  MovieCard,
+  MovieListsResponseV1,
+} from '@/lib/api/v1';
+import { readServerEvents } from '@/lib/chat/events';
+import { ChatThread, type ChatTurn } from '@/app/components/chat/chat-thread';
+import type { ListChange } from '@/app/components/chat/movie-card';
+import { Button } from '@/app/components/ui/button';
+import { Card } from '@/app/components/ui/card';
+import { Input } from '@/app/components/ui/input';
 import './chat.css';
 
+// The server only looks at the last few turns and rejects long histories.
+const MAX_SENT_MESSAGES = 20;
+
+// The conversation up to `turn`, ending with its question. Answers that didn't
+// finish are left out, as the server never saw them completed.
+function requestFor(turn: ChatTurn, earlier: ChatTurn[]): ChatRequestV1 {
+  const finished = earlier.filter((t) => t.status === 'done');
+  const messages: ChatMessageV1[] = finished.flatMap((t): ChatMessageV1[] => [
+    { role: 'user', content: t.question },
+    { role: 'assistant', content: t.answer },
+  ]);
+  messages.push({ role: 'user', content: turn.question });
+  return {
+    messages: messages.slice(-MAX_SENT_MESSAGES),
+    activeMovieIds: finished[finished.length - 1]?.activeMovieIds ?? [],
+  };
+}
+
 export default function Home() {
   const [question, setQuestion] = useState('');
-  const [response, setResponse] = useState('');
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [lists, setLists] = useState<MovieListsResponseV1 | null>(null);
+  const [listError, setListError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const nextId = useRef(0);
 
   const quickPrompts = [
   "Is The Dark Knight worth watching?",
@@ -20,22 +58,128 @@ export default function Home() {
   "Key themes in Get Out"
 ];
 
-  const handleQuickPrompt = (prompt: string) => {
-    setQuestion(prompt);
-    handleSubmit(prompt);
+  useEffect(() => {
+    fetch('/api/v1/lists')
+      .then(async (res) => {
+        if (res.ok) setLists(await res.json());
+        else setListError(((await res.json()) as ChatErrorResponseV1).error.message);
+      })
+      .catch((error) => console.error(error));
+  }, []);
+
+  // Answers use the lists on the next question: seen movies are skipped and liked genres favoured.
+  const handleListChange = async (movie: MovieCard, { list, add, liked }: ListChange) => {
+    setListError('');
+    try {
+      const body: AddToListRequestV1 = { tmdbId: movie.id, liked };
+      const res = add
+        ? await fetch(`/api/v1/lists/${list}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          })
+        : await fetch(`/api/v1/lists/${list}/${movie.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        setLists(await res.json());
+      } else {
+        setListError(((await res.json()) as ChatErrorResponseV1).error.message);
+      }
+    } catch (error) {
+      console.error(error);
+      setListError(`Couldn't update your ${list === 'seen' ? 'seen list' : 'watchlist'}. Please try again.`);
+    }
+  };
+
+  const updateTurn = (id: number, update: Partial<ChatTurn>) => {
+    setTurns((current) => current.map((t) => (t.id === id ? { ...t, ...update } : t)));
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const ask = async (turn: ChatTurn, earlier: ChatTurn[]) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+
+    let answer = '';
+    let settled = false;
+    try {
+      const res = await fetch('/api/v1/chat', {
+        method: 'POST',
+        headers: { Accept: 'text/event-stream', 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestFor(turn, earlier)),
+        signal: controller.signal,
+      });
+
+      if (!res.ok || !res.body) {
+        const { error } = (await res.json()) as ChatErrorResponseV1;
+        // Nothing matching is an answer, not a failure
+        if (error.code === 'NO_MATCH') {
+          updateTurn(turn.id, { status: 'done', answer: error.message, activeMovieIds: [] });
+        } else {
+          updateTurn(turn.id, { status: 'error', error: error.message });
+        }
+        return;
+      }
+
+      await readServerEvents(res.body, (serverEvent) => {
+        const { event, data } = serverEvent as ChatStreamEventV1;
+        if (event === 'movies') {
+          updateTurn(turn.id, { movies: data.movies });
+        } else if (event === 'token') {
+          answer += data.text;
+          updateTurn(turn.id, { status: 'streaming', answer });
+        } else if (event === 'done') {
+          settled = true;
+          updateTurn(turn.id, { status: 'done', activeMovieIds: data.activeMovieIds });
+        } else if (event === 'error') {
+          settled = true;
+          updateTurn(turn.id, { status: 'error', error: data.message });
+        }
+      });
+      if (!settled) {
+        updateTurn(turn.id, { status: 'error', error: 'The answer was cut off. Please try again.' });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateTurn(turn.id, { status: 'stopped' });
+      } else {
+        console.error(error);
+        updateTurn(turn.id, { status: 'error', error: 'Sorry, something went wrong. Please try again.' });
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
   };
 
-  const handleSubmit = async (customPrompt?: string) => {
-    const prompt = customPrompt || question;
-    setResponse('Thinking...');
+  const handleSubmit = (customPrompt?: string) => {
+    const prompt = (customPrompt || question).trim();
+    if (!prompt) return;
 
-    const res = await fetch('/api/chat', {
-      method: 'POST',
-      body: JSON.stringify({ messages: [{ role: 'user', content: prompt }] }),
-    });
+    const turn: ChatTurn = {
+      id: nextId.current++,
+      question: prompt,
+      answer: '',
+      movies: [],
+      activeMovieIds: [],
+      status: 'pending',
+    };
+    setTurns([...turns, turn]);
+    setQuestion('');
+    ask(turn, turns);
+  };
 
-    const data = await res.text();
-    setResponse(data);
+  // Asks the same question again with the conversation that preceded it.
+  const handleRetry = (turn: ChatTurn) => {
+    const retried: ChatTurn = { ...turn, answer: '', movies: [], activeMovieIds: [], status: 'pending', error: undefined };
+    updateTurn(turn.id, retried);
+    ask(retried, turns.slice(0, turns.findIndex((t) => t.id === turn.id)));
   };
 
   return (
@@ -48,15 +192,27 @@ export default function Home() {
         The Ultimate place for Cinephiles! Ask  anything about your favorite movies and it will come back with the most up-to-date answers. We hope you enjoy!
       </p>
 
-      <div className="quick-prompts">
-        {quickPrompts.map((prompt, idx) => (
-          <button key={idx} className="prompt-button" onClick={() => handleQuickPrompt(prompt)}>
-            {prompt}
-          </button>
-        ))}
-      </div>
+      {turns.length === 0 && (
+        <div className="quick-prompts">
+          {quickPrompts.map((prompt, idx) => (
+            <Button key={idx} variant="secondary" size="sm" className="prompt-button" onClick={() => handleSubmit(prompt)}>
+              {prompt}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <Card className="card">
+        {turns.length > 0 && (
+          <ChatThread
+            turns={turns}
+            busy={loading}
+            onRetry={handleRetry}
+            listActions={{ lists, onListChange: handleListChange }}
+          />
+        )}
+        {listError && <div className="message-error" role="alert">{listError}</div>}
 
-      <div className="card">
         <form
           onSubmit={(e) => {
             e.preventDefault();
@@ -64,21 +220,19 @@ export default function Home() {
           }}
           className="input-row"
         >
-          <input
+          <Input
             className="chat-input"
-            placeholder="Ask me something..."
+            placeholder={turns.length > 0 ? 'Ask a follow-up...' : 'Ask me something...'}
             value={question}
             onChange={(e) => setQuestion(e.target.value)}
           />
-          <button type="submit" className="submit-button">Submit</button>
+          {loading ? (
+            <Button type="button" className="submit-button" onClick={handleCancel}>Stop</Button>
+          ) : (
+            <Button type="submit" className="submit-button" disabled={!question.trim()}>Submit</Button>
+          )}
         </form>
-
-        {response && (
-          <div className="response-box">
-            {response}
-          </div>
-        )}
-      </div>
+      </Card>
     </main>
   );
 }
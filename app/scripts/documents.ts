@@ -0,0 +1,110 @@
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import crypto from "crypto";
+import type { TMDBDiscoverMovie } from "../../lib/tmdb";
+import { tmdbSourceUrl } from "../../lib/movies/ids";
+import { normalizeTitle, titleSearchTerms } from "../../lib/movies/titles";
+import type { MovieChunk, RegionAvailability } from "../../lib/store";
+
+// === Movie Documents ===
+// Turns a movie's TMDB data into the text that gets embedded and the chunk
+// documents that get stored. Shared by the ingester and the evaluation
+// corpus, so both split and describe movies the same way.
+
+// The discover-list fields the ingester uses; also what the failed ledger keeps.
+export type Movie = Pick<TMDBDiscoverMovie, "id" | "title" | "overview" | "release_date" | "vote_average">;
+
+export interface MovieDetails {
+  genres: string[];
+  director: string;
+  cast: string[];
+  runtime?: number;
+  keywords: string[];
+  tagline?: string;
+}
+
+export interface MovieDocument {
+  // Movie-level fields, copied onto every chunk
+  fields: Omit<MovieChunk, "_id" | "text" | "chunk_index">;
+  fullContent: string;
+  chunks: string[];
+  chunkIds: string[];
+}
+
+const splitter = new RecursiveCharacterTextSplitter({
+  chunkSize: 512,
+  chunkOverlap: 100
+});
+
+export function hashId(input: string): string {
+  return crypto.createHash("sha256").update(input).digest("hex");
+}
+
+// Known from the discover result alone, so the ingester can tell whether a
+// movie is stored before fetching its details.
+export function chunkId(title: string, releaseDate: string, index: number): string {
+  return hashId(`${title}_${releaseDate}_${index}`);
+}
+
+// `region` picks the providers that fill `where_to_watch`.
+export async function buildMovieDocument(
+  movie: Movie,
+  details: MovieDetails,
+  availability: Record<string, RegionAvailability>,
+  region: string
+): Promise<MovieDocument> {
+  const { title, release_date, vote_average, id, overview } = movie;
+
+  // Rating and providers change often, so they are stored as fields but
+  // kept out of the embedded text; refreshing them needs no re-embedding.
+  const fullContent = [
+    `Title: ${title}`,
+    details.tagline ? `Tagline: ${details.tagline}` : null,
+    `Overview: ${overview || "No overview available."}`,
+    details.genres.length > 0 ? `Genres: ${details.genres.join(", ")}` : null,
+    details.director ? `Director: ${details.director}` : null,
+    details.cast.length > 0 ? `Cast: ${details.cast.join(", ")}` : null,
+    details.runtime ? `Runtime: ${details.runtime} minutes` : null,
+    details.keywords.length > 0 ? `Keywords: ${details.keywords.join(", ")}` : null,
+    `Release Date: ${release_date}`
+  ].filter(Boolean).join("\n");
+
+  const chunks = await splitter.splitText(fullContent);
+
+  return {
+    fields: {
+      title,
+      title_key: normalizeTitle(title),
+      title_terms: titleSearchTerms(title),
+      release_date,
+      release_year: parseInt(release_date.slice(0, 4), 10),
+      rating: vote_average,
+      overview,
+      genres: details.genres,
+      director: details.director || undefined,
+      cast: details.cast,
+      runtime: details.runtime,
+      keywords: details.keywords,
+      where_to_watch: availability[region]?.flatrate || [],
+      availability,
+      source: tmdbSourceUrl(id),
+      content_hash: hashId(fullContent),
+      ingested_at: new Date().toISOString(),
+      chunk_count: chunks.length
+    },
+    fullContent,
+    chunks,
+    chunkIds: chunks.map((_, i) => chunkId(title, release_date, i))
+  };
+}
+
+// One document per chunk, without vectors.
+export function toChunkDocuments({ fields, fullContent, chunks, chunkIds }: MovieDocument): MovieChunk[] {
+  return chunks.map((text, i) => ({
+    _id: chunkIds[i],
+    text,
+    ...fields,
+    chunk_index: i,
+    // The first chunk is the parent document retrieval reassembles movies from
+    ...(i === 0 ? { full_text: fullContent } : {})
+  }));
+}
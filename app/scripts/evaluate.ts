@@ -0,0 +1,253 @@
+import "dotenv/config";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import { embedTexts, getAIConfig } from "../../lib/ai";
+import { loadConversationContext, resolveFollowUp, type ChatMessage } from "../../lib/chat/conversation";
+import { handleIntent } from "../../lib/chat/handlers";
+import { collectText } from "../../lib/chat/stream";
+import { movieId } from "../../lib/movies/ids";
+import { writeLexicalIndex } from "../../lib/search/lexical";
+import { getMovieStore, type MovieChunk, type RegionAvailability } from "../../lib/store";
+import { buildMovieDocument, toChunkDocuments, type Movie, type MovieDetails } from "./documents";
+import {
+  buildReport,
+  compareReports,
+  isComparable,
+  scoreCase,
+  type CaseResult,
+  type Comparison,
+  type EvaluationReport,
+  type GoldenSet,
+  type Metrics
+} from "./evaluation";
+
+// === Types ===
+interface CorpusMovie extends Movie {
+  details: MovieDetails;
+  availability: Record<string, RegionAvailability>;
+}
+
+interface Corpus {
+  version: number;
+  movies: CorpusMovie[];
+}
+
+// === Configuration ===
+const CONFIG = {
+  CORPUS_FILE: "eval/corpus.json",
+  GOLDEN_SET_FILE: "eval/golden-set.json",
+  BASELINE_FILE: "eval/baseline.json",
+  // Rebuilt on every run, so it never mixes with a real store
+  STORE_FILE: ".data/eval/movie-store.json",
+  LEXICAL_INDEX_FILE: ".data/eval/lexical-index.json",
+  REGION: "US",
+  DEFAULT_K: 5,
+  // Metric drops smaller than this are noise, not regressions
+  DEFAULT_TOLERANCE: 0.01
+};
+
+// === Command Line ===
+interface CliOptions {
+  k: number;
+  tolerance: number;
+  caseIds: string[];
+  updateBaseline: boolean;
+  envProviders: boolean;
+  json: boolean;
+}
+
+const USAGE = `Usage: npm run eval -- [options]
+
+Runs the golden set in ${CONFIG.GOLDEN_SET_FILE} through the chat pipeline against
+the fixture corpus in ${CONFIG.CORPUS_FILE} and compares with ${CONFIG.BASELINE_FILE}.
+Exits with status 1 when a metric regresses.
+
+Options:
+  --k <n>              Results per query that count towards recall and MRR (default ${CONFIG.DEFAULT_K})
+  --tolerance <x>      Metric drop allowed before it counts as a regression (default ${CONFIG.DEFAULT_TOLERANCE})
+  --case <id>          Run only this case; repeatable, skips the baseline comparison
+  --update-baseline    Save this run as the new baseline
+  --env-providers      Use the embedding and chat providers from .env instead of the fake ones
+  --json               Print the report as JSON on stdout (logs go to stderr)
+  --help               Show this message`;
+
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) throw new Error(`${flag} must be a number, got "${value}"`);
+  return parsed;
+}
+
+function parseCli(argv: string[]): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      k: { type: "string" },
+      tolerance: { type: "string" },
+      case: { type: "string", multiple: true },
+      "update-baseline": { type: "boolean", default: false },
+      "env-providers": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help) {
+    console.error(USAGE);
+    process.exit(0);
+  }
+
+  return {
+    k: parseNumber(values.k, "--k") ?? CONFIG.DEFAULT_K,
+    tolerance: parseNumber(values.tolerance, "--tolerance") ?? CONFIG.DEFAULT_TOLERANCE,
+    caseIds: values.case ?? [],
+    updateBaseline: values["update-baseline"],
+    envProviders: values["env-providers"],
+    json: values.json
+  };
+}
+
+// The evaluation always runs on its own local store; by default with the
+// deterministic fake providers so runs are repeatable and need no API keys.
+function configureEnvironment(options: CliOptions) {
+  process.env.MOVIE_STORE = "local";
+  process.env.LOCAL_STORE_PATH = CONFIG.STORE_FILE;
+  process.env.LEXICAL_INDEX_PATH = CONFIG.LEXICAL_INDEX_FILE;
+  // A persistent cache could hold results from the real store.
+  process.env.CACHE_BACKEND = "off";
+  if (!options.envProviders) {
+    process.env.EMBEDDING_PROVIDER = "fake";
+    process.env.CHAT_PROVIDER = "fake";
+    delete process.env.EMBEDDING_MODEL;
+    delete process.env.EMBEDDING_DIMENSION;
+    delete process.env.CHAT_MODEL;
+  }
+}
+
+function readJson<T>(path: string): T {
+  return JSON.parse(readFileSync(path, "utf-8")) as T;
+}
+
+// === Corpus ===
+async function loadCorpus(corpus: Corpus): Promise<number> {
+  rmSync(CONFIG.STORE_FILE, { force: true });
+  const store = getMovieStore();
+  await store.ensureReady(getAIConfig().embedding.dimension);
+
+  const chunks: MovieChunk[] = [];
+  for (const { details, availability, ...movie } of corpus.movies) {
+    const document = await buildMovieDocument(movie, details, availability, CONFIG.REGION);
+    chunks.push(...toChunkDocuments(document));
+  }
+  const vectors = await embedTexts(chunks.map(chunk => chunk.text));
+  await store.upsertChunks(chunks.map((chunk, i) => ({ ...chunk, $vector: vectors[i] })));
+  await writeLexicalIndex(store);
+  return chunks.length;
+}
+
+// === Evaluation ===
+// Each query goes through the same steps as the chat route.
+async function runCase(query: string): Promise<{ intent: string; movieIds: string[]; answer: string }> {
+  const messages: ChatMessage[] = [{ role: "user", content: query }];
+  const context = await loadConversationContext(messages, [], CONFIG.REGION);
+  const intent = resolveFollowUp(query, messages, context);
+  const answer = await handleIntent(intent, context);
+  return { intent: intent.kind, movieIds: answer.movies.map(movieId), answer: await collectText(answer.text) };
+}
+
+// === Output ===
+function formatRate(value: number | null): string {
+  return value === null ? "   -" : value.toFixed(2).padStart(4);
+}
+
+function printMetrics(scope: string, metrics: Metrics, k: number) {
+  console.log(
+    `${scope.padEnd(16)} n=${String(metrics.cases).padStart(2)}  ` +
+    `recall@${k} ${formatRate(metrics.recallAtK)}  MRR ${formatRate(metrics.mrr)}  ` +
+    `exact-title ${formatRate(metrics.exactTitleHitRate)}  answers ${formatRate(metrics.answerPassRate)}`
+  );
+}
+
+function printCase(result: CaseResult) {
+  const status = result.reciprocalRank === 1 && result.missingText.length === 0 ? "✅" : result.reciprocalRank > 0 ? "🟡" : "❌";
+  const missing = result.missingText.length > 0 ? `  missing: ${result.missingText.join(", ")}` : "";
+  console.log(`${status} ${result.id.padEnd(34)} ${result.intent.padEnd(15)} recall ${result.recall.toFixed(2)}  RR ${result.reciprocalRank.toFixed(2)}${missing}`);
+}
+
+function printComparison(comparison: Comparison) {
+  for (const { scope, metric, baseline, current } of comparison.improvements) {
+    console.log(`📈 ${scope} ${metric}: ${baseline.toFixed(3)} → ${current.toFixed(3)}`);
+  }
+  for (const { scope, metric, baseline, current } of comparison.regressions) {
+    console.log(`📉 ${scope} ${metric}: ${baseline.toFixed(3)} → ${current.toFixed(3)}`);
+  }
+  for (const { id, baseline, current } of comparison.worsenedCases) {
+    console.log(`   ↳ ${id}: RR ${baseline.toFixed(2)} → ${current.toFixed(2)}`);
+  }
+  if (comparison.regressions.length === 0) console.log("✅ No regressions against the baseline");
+}
+
+// === Main Execution ===
+async function main() {
+  try {
+    const options = parseCli(process.argv.slice(2));
+    // Keep stdout for the JSON report.
+    if (options.json) console.log = console.error;
+    configureEnvironment(options);
+
+    const corpus = readJson<Corpus>(CONFIG.CORPUS_FILE);
+    const goldenSet = readJson<GoldenSet>(CONFIG.GOLDEN_SET_FILE);
+    const cases = options.caseIds.length > 0
+      ? goldenSet.cases.filter(c => options.caseIds.includes(c.id))
+      : goldenSet.cases;
+    if (cases.length === 0) throw new Error(`No golden cases match ${options.caseIds.join(", ")}`);
+
+    const chunkCount = await loadCorpus(corpus);
+    console.log(`📚 Corpus v${corpus.version}: ${corpus.movies.length} movies, ${chunkCount} chunks`);
+    console.log(`🧪 Golden set v${goldenSet.version}: ${cases.length} cases, k=${options.k}\n`);
+
+    const results: CaseResult[] = [];
+    for (const testCase of cases) {
+      const { intent, movieIds, answer } = await runCase(testCase.query);
+      const result = scoreCase(testCase, intent, movieIds, answer, options.k);
+      results.push(result);
+      printCase(result);
+    }
+
+    const report = buildReport(results, goldenSet, corpus.version, options.k);
+    console.log("");
+    printMetrics("overall", report.overall, report.k);
+    for (const [kind, metrics] of Object.entries(report.byKind)) printMetrics(kind, metrics, report.k);
+    console.log("");
+
+    // A partial run can't be compared with, or replace, a full baseline.
+    const partial = options.caseIds.length > 0;
+    const baseline = existsSync(CONFIG.BASELINE_FILE) ? readJson<EvaluationReport>(CONFIG.BASELINE_FILE) : null;
+    let comparison: Comparison | null = null;
+
+    if (options.updateBaseline && !partial) {
+      writeFileSync(CONFIG.BASELINE_FILE, `${JSON.stringify(report, null, 2)}\n`);
+      console.log(`💾 Baseline saved to ${CONFIG.BASELINE_FILE}`);
+    } else if (partial) {
+      console.log("ℹ️ Partial run; not compared with the baseline");
+    } else if (!baseline) {
+      console.log(`ℹ️ No baseline at ${CONFIG.BASELINE_FILE}; save one with --update-baseline`);
+    } else if (!isComparable(baseline, report)) {
+      console.log(
+        `⚠️ Baseline is for golden set v${baseline.goldenSetVersion}, corpus v${baseline.corpusVersion}, k=${baseline.k}; ` +
+        "refresh it with --update-baseline"
+      );
+    } else {
+      comparison = compareReports(baseline, report, options.tolerance);
+      printComparison(comparison);
+    }
+
+    if (options.json) process.stdout.write(`${JSON.stringify({ report, comparison }, null, 2)}\n`);
+    if (comparison && comparison.regressions.length > 0) process.exit(1);
+  } catch (err) {
+    console.error("💀 Fatal error:", err);
+    process.exit(1);
+  }
+}
+
+main();
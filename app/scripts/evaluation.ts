@@ -0,0 +1,172 @@
+// === Retrieval Evaluation ===
+// Scores the movies an answer returned against a golden set's expected TMDB
+// ids, and compares a run's metrics with a stored baseline.
+
+export type CaseKind = "title" | "provider" | "recommendation" | "list";
+
+export interface GoldenCase {
+  id: string;
+  kind: CaseKind;
+  query: string;
+  // TMDB ids of the relevant movies, in no particular order
+  expected: string[];
+  // Substrings the answer text must contain
+  expectText?: string[];
+}
+
+export interface GoldenSet {
+  version: number;
+  cases: GoldenCase[];
+}
+
+export interface CaseResult {
+  id: string;
+  kind: CaseKind;
+  intent: string;
+  // Movie ids the answer returned, best first, cut to k
+  ranked: string[];
+  recall: number;
+  reciprocalRank: number;
+  // Only for single-movie cases: did the right movie come first?
+  exactTitleHit?: boolean;
+  missingText: string[];
+}
+
+export interface Metrics {
+  cases: number;
+  recallAtK: number;
+  mrr: number;
+  exactTitleHitRate: number | null;
+  answerPassRate: number | null;
+}
+
+export interface EvaluationReport {
+  goldenSetVersion: number;
+  corpusVersion: number;
+  k: number;
+  overall: Metrics;
+  byKind: Partial<Record<CaseKind, Metrics>>;
+  cases: CaseResult[];
+}
+
+export interface MetricChange {
+  scope: string;
+  metric: keyof Metrics;
+  baseline: number;
+  current: number;
+}
+
+export interface Comparison {
+  regressions: MetricChange[];
+  improvements: MetricChange[];
+  // Cases whose first relevant result moved down or dropped out
+  worsenedCases: { id: string; baseline: number; current: number }[];
+}
+
+// Lookups and provider questions are about exactly one movie.
+const SINGLE_MOVIE_KINDS: CaseKind[] = ["title", "provider"];
+const COMPARED_METRICS: (keyof Metrics)[] = ["recallAtK", "mrr", "exactTitleHitRate", "answerPassRate"];
+
+export function scoreCase(
+  testCase: GoldenCase,
+  intent: string,
+  movieIds: string[],
+  answer: string,
+  k: number
+): CaseResult {
+  const ranked = movieIds.slice(0, k);
+  const expected = new Set(testCase.expected);
+  const hits = ranked.filter(id => expected.has(id)).length;
+  const firstHit = ranked.findIndex(id => expected.has(id));
+  const text = answer.toLowerCase();
+
+  return {
+    id: testCase.id,
+    kind: testCase.kind,
+    intent,
+    ranked,
+    recall: expected.size === 0 ? 0 : hits / expected.size,
+    reciprocalRank: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    exactTitleHit: SINGLE_MOVIE_KINDS.includes(testCase.kind) ? ranked[0] === testCase.expected[0] : undefined,
+    missingText: (testCase.expectText ?? []).filter(snippet => !text.includes(snippet.toLowerCase())),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function rate(values: boolean[]): number | null {
+  return values.length === 0 ? null : values.filter(Boolean).length / values.length;
+}
+
+export function summarize(results: CaseResult[], goldenSet: GoldenSet): Metrics {
+  const expectsText = new Set(goldenSet.cases.filter(c => c.expectText?.length).map(c => c.id));
+  return {
+    cases: results.length,
+    recallAtK: mean(results.map(r => r.recall)),
+    mrr: mean(results.map(r => r.reciprocalRank)),
+    exactTitleHitRate: rate(results.filter(r => r.exactTitleHit !== undefined).map(r => r.exactTitleHit === true)),
+    answerPassRate: rate(results.filter(r => expectsText.has(r.id)).map(r => r.missingText.length === 0)),
+  };
+}
+
+export function buildReport(
+  results: CaseResult[],
+  goldenSet: GoldenSet,
+  corpusVersion: number,
+  k: number
+): EvaluationReport {
+  const byKind: EvaluationReport["byKind"] = {};
+  for (const kind of new Set(results.map(r => r.kind))) {
+    byKind[kind] = summarize(results.filter(r => r.kind === kind), goldenSet);
+  }
+  return {
+    goldenSetVersion: goldenSet.version,
+    corpusVersion,
+    k,
+    overall: summarize(results, goldenSet),
+    byKind,
+    cases: results,
+  };
+}
+
+// Runs are only comparable on the same golden set, corpus and k.
+export function isComparable(baseline: EvaluationReport, report: EvaluationReport): boolean {
+  return (
+    baseline.goldenSetVersion === report.goldenSetVersion &&
+    baseline.corpusVersion === report.corpusVersion &&
+    baseline.k === report.k
+  );
+}
+
+export function compareReports(baseline: EvaluationReport, report: EvaluationReport, tolerance: number): Comparison {
+  const regressions: MetricChange[] = [];
+  const improvements: MetricChange[] = [];
+
+  const scopes: [string, Metrics | undefined, Metrics | undefined][] = [
+    ["overall", baseline.overall, report.overall],
+    ...Object.keys(report.byKind).map(kind => [
+      kind,
+      baseline.byKind[kind as CaseKind],
+      report.byKind[kind as CaseKind],
+    ] as [string, Metrics | undefined, Metrics | undefined]),
+  ];
+  for (const [scope, before, after] of scopes) {
+    if (!before || !after) continue;
+    for (const metric of COMPARED_METRICS) {
+      const baselineValue = before[metric];
+      const current = after[metric];
+      if (baselineValue === null || current === null) continue;
+      if (current < baselineValue - tolerance) regressions.push({ scope, metric, baseline: baselineValue, current });
+      else if (current > baselineValue + tolerance) improvements.push({ scope, metric, baseline: baselineValue, current });
+    }
+  }
+
+  const previous = new Map(baseline.cases.map(c => [c.id, c.reciprocalRank]));
+  const worsenedCases = report.cases
+    .filter(c => previous.has(c.id) && c.reciprocalRank < previous.get(c.id)!)
+    .map(c => ({ id: c.id, baseline: previous.get(c.id)!, current: c.reciprocalRank }));
+
+  return { regressions, improvements, worsenedCases };
+}
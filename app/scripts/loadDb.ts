@@ -1,179 +1,250 @@
-import { DataAPIClient } from "@datastax/astra-db-ts";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import fetch from "node-fetch";
 import pLimit from "p-limit";
-import crypto from "crypto";
 import "dotenv/config";
-import { writeFileSync, existsSync, readFileSync } from "fs";
-
-// === Types ===
-interface Movie {
-  id: number;
-  title: string;
-  overview: string;
-  release_date: string;
-  vote_average: number;
-}
-
-interface WatchProvider {
-  provider_name: string;
-}
-
-interface TMDBWatchProvidersResponse {
-  results?: {
-    US?: {
-      flatrate?: WatchProvider[];
-    };
-  };
-}
-
-interface ChunkDocument {
-  _id: string;
-  $vector: number[];
-  text: string;
-  title: string;
-  release_date: string;
-  rating: number;
-  where_to_watch: string[];
-  source: string;
-  chunk_index: number;
-}
+import { parseArgs } from "util";
+import {
+  createEmbeddingCache,
+  embedTexts,
+  getAIConfig,
+  getEmbeddingProvider,
+  requiredAIEnvVars,
+  type EmbeddingCache
+} from "../../lib/ai";
+import { getCacheConfig } from "../../lib/cache";
+import { invalidateMovieCaches } from "../../lib/chat/cache";
+import { getLexicalIndexPath, writeLexicalIndex } from "../../lib/search/lexical";
+import { getTMDBClient, requiredTMDBEnvVars } from "../../lib/tmdb";
+import {
+  getMovieStore,
+  requiredStoreEnvVars,
+  type MovieChunk,
+  type MovieStore,
+  type OfferType,
+  type RegionAvailability
+} from "../../lib/store";
+import {
+  buildMovieDocument,
+  chunkId,
+  toChunkDocuments,
+  type Movie,
+  type MovieDetails,
+  type MovieDocument
+} from "./documents";
+import { countByYear, prunableIds, summarizeIds, verifyStore } from "./maintenance";
+import {
+  acquireLock,
+  emptyProgress,
+  listProgress,
+  progressPath,
+  readProgress,
+  removeProgress,
+  writeProgress,
+  type IngestMode,
+  type IngestRange,
+  type ProgressState
+} from "./progress";
 
 // === Configuration ===
 const CONFIG = {
   RETRY_LIMIT: 3,
   RETRY_BASE_DELAY_MS: 1000,
   CONCURRENCY_LIMIT: 5,
-  TMDB_RATE_LIMIT_DELAY_MS: 350, // TMDB has 40 requests/10 second limit
   MAX_PAGES_PER_YEAR: 500,
   MIN_RATING: 7.0,
-  VECTOR_DIMENSION: 768,
-  PROGRESS_FILE: "ingest_progress.json",
+  PROGRESS_DIR: ".data/ingest",
+  RETRY_GROUP_SIZE: 20,
   BATCH_INSERT_SIZE: 20,
-  REGION: "US"
+  LOOKUP_BATCH_SIZE: 100, // Data API limit on $in values
+  EMBEDDING_CACHE_FILE: process.env.EMBEDDING_CACHE_PATH || ".data/embedding-cache.jsonl",
+  MAX_CAST: 10,
+  MAX_KEYWORDS: 15,
+  // Region whose streaming providers fill `where_to_watch`
+  REGION: process.env.WATCH_REGION || "US",
+  OFFER_TYPES: ["flatrate", "free", "ads", "rent", "buy"] as OfferType[]
 };
 
-// === Validate Environment ===
-function validateEnv() {
-  const requiredVars = [
-    "ASTRA_DB_NAMESPACE",
-    "ASTRA_DB_COLLECTION",
-    "ASTRA_DB_API_ENDPOINT",
-    "ASTRA_DB_APPLICATION_TOKEN",
-    "GOOGLE_API_KEY",
-    "TMDB_API_KEY"
-  ];
-
-  const missingVars = requiredVars.filter(v => !process.env[v]);
-  if (missingVars.length > 0) {
-    throw new Error(`Missing required environment variables: ${missingVars.join(", ")}`);
-  }
-
-  const startYear = parseInt(process.env.START_YEAR || "2000", 10);
-  const endYear = parseInt(process.env.END_YEAR || "2025", 10);
+// === Command Line ===
+type Command = "ingest" | "retry-failed" | "status" | "verify" | "prune" | "reset-progress" | "index";
 
-  if (isNaN(startYear)) throw new Error("Invalid START_YEAR");
-  if (isNaN(endYear)) throw new Error("Invalid END_YEAR");
-  if (startYear > endYear) throw new Error("START_YEAR must be <= END_YEAR");
+const COMMANDS: Command[] = ["ingest", "retry-failed", "status", "verify", "prune", "reset-progress", "index"];
 
-  return { startYear, endYear };
+interface CliOptions {
+  command: Command;
+  startYear: number;
+  endYear: number;
+  mode: IngestMode;
+  dryRun: boolean;
+  json: boolean;
 }
 
-// === Progress Tracking ===
-interface ProgressState {
-  currentYear: number;
-  completedYears: number[];
-  lastSuccessfulPage: Record<number, number>;
+const USAGE = `Usage: npm run ingest -- <command> [options]
+
+Commands:
+  ingest           Fetch movies from TMDB and write them to the store
+  retry-failed     Process the movies that failed in earlier runs over the same range
+  status           Movie and chunk counts per year, and ingest progress
+  verify           List chunks missing vectors or fields, or left over from an older split
+  prune            Delete the chunks verify reports as unusable or stale
+  reset-progress   Forget where the last run over the range stopped (failed movies are kept)
+  index            Rebuild the lexical search index from the store (runs that change the store do this too)
+
+Options:
+  --from <year>        First release year (default START_YEAR or 2000)
+  --to <year>          Last release year (default END_YEAR or 2025)
+  --refresh            Update stored movies instead of skipping them (default INGEST_MODE)
+  --dry-run            Report what would change without writing anything
+  --min-rating <n>     Skip movies rated below n (default ${CONFIG.MIN_RATING})
+  --max-pages <n>      TMDB pages to fetch per year (default ${CONFIG.MAX_PAGES_PER_YEAR})
+  --concurrency <n>    Movies fetched in parallel (default ${CONFIG.CONCURRENCY_LIMIT})
+  --json               Print the result as JSON on stdout; logs go to stderr`;
+
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new Error(`Invalid ${flag}: ${value}`);
+  return number;
 }
 
-function loadProgress(): ProgressState {
-  try {
-    if (existsSync(CONFIG.PROGRESS_FILE)) {
-      return JSON.parse(readFileSync(CONFIG.PROGRESS_FILE, 'utf-8'));
-    }
-  } catch (err) {
-    console.warn("Failed to load progress file, starting fresh");
+function parsePositiveInteger(value: string | undefined, flag: string): number | undefined {
+  const number = parseNumber(value, flag);
+  if (number !== undefined && (!Number.isInteger(number) || number < 1)) {
+    throw new Error(`Invalid ${flag}: ${value}`);
   }
-  return {
-    currentYear: validateEnv().startYear,
-    completedYears: [],
-    lastSuccessfulPage: {}
-  };
+  return number;
 }
 
-function saveProgress(state: ProgressState) {
-  try {
-    writeFileSync(CONFIG.PROGRESS_FILE, JSON.stringify(state, null, 2));
-  } catch (err) {
-    console.error("Failed to save progress:", err);
+// Flags override CONFIG for this run.
+function parseCli(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      refresh: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      "min-rating": { type: "string" },
+      "max-pages": { type: "string" },
+      concurrency: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  const command = (positionals[0] || "ingest") as Command;
+  if (values.help || !COMMANDS.includes(command)) {
+    console.error(USAGE);
+    process.exit(values.help ? 0 : 1);
   }
+
+  const startYear = parseNumber(values.from ?? process.env.START_YEAR, "--from") ?? 2000;
+  const endYear = parseNumber(values.to ?? process.env.END_YEAR, "--to") ?? 2025;
+  if (startYear > endYear) throw new Error("--from must be <= --to");
+
+  const mode = values.refresh ? "refresh" : (process.env.INGEST_MODE || "ingest") as IngestMode;
+  if (mode !== "ingest" && mode !== "refresh") throw new Error("INGEST_MODE must be ingest or refresh");
+
+  CONFIG.MIN_RATING = parseNumber(values["min-rating"], "--min-rating") ?? CONFIG.MIN_RATING;
+  CONFIG.MAX_PAGES_PER_YEAR = parsePositiveInteger(values["max-pages"], "--max-pages") ?? CONFIG.MAX_PAGES_PER_YEAR;
+  CONFIG.CONCURRENCY_LIMIT = parsePositiveInteger(values.concurrency, "--concurrency") ?? CONFIG.CONCURRENCY_LIMIT;
+
+  return { command, startYear, endYear, mode, dryRun: values["dry-run"], json: values.json };
 }
 
-// === Astra Setup ===
-const client = new DataAPIClient(process.env.ASTRA_DB_APPLICATION_TOKEN!);
-const db = client.db(process.env.ASTRA_DB_API_ENDPOINT!, { 
-  keyspace: process.env.ASTRA_DB_NAMESPACE! 
-});
+// === Validate Environment ===
+// Only ingesting and retrying talk to TMDB and the embedding provider.
+function validateEnv(command: Command) {
+  const requiredVars = command === "reset-progress"
+    ? []
+    : command === "ingest" || command === "retry-failed"
+      ? [...requiredStoreEnvVars(), ...requiredAIEnvVars(), ...requiredTMDBEnvVars()]
+      : requiredStoreEnvVars();
+
+  const missingVars = requiredVars.filter(v => !process.env[v]);
+  if (missingVars.length > 0) {
+    throw new Error(`Missing required environment variables: ${missingVars.join(", ")}`);
+  }
+}
 
-// === Text Processing ===
-const splitter = new RecursiveCharacterTextSplitter({ 
-  chunkSize: 512, 
-  chunkOverlap: 100 
-});
+// === Progress Tracking ===
+function rangeOf(options: CliOptions): IngestRange {
+  return { mode: options.mode, from: options.startYear, to: options.endYear };
+}
 
-// === Gemini Setup ===
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-const embeddingModel = genAI.getGenerativeModel({ 
-  model: "models/embedding-001" 
-});
+function loadProgress(options: CliOptions): ProgressState {
+  return readProgress(CONFIG.PROGRESS_DIR, rangeOf(options)) ?? emptyProgress(rangeOf(options));
+}
 
-// === Helper Functions ===
-async function getGeminiEmbedding(text: string): Promise<number[]> {
+function saveProgress(state: ProgressState, options: CliOptions) {
+  if (options.dryRun) return;
   try {
-    const result = await embeddingModel.embedContent({
-      content: { role: "user", parts: [{ text }] },
-    });
-    return result.embedding.values;
+    writeProgress(CONFIG.PROGRESS_DIR, state);
   } catch (err) {
-    console.error("Failed to generate embedding:", err);
-    throw err;
+    console.error("Failed to save progress:", err);
   }
 }
 
-function hashId(input: string): string {
-  return crypto.createHash("sha256").update(input).digest("hex");
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
 }
 
-async function fetchWithRateLimit<T>(url: string): Promise<T> {
-  const startTime = Date.now();
-  try {
-    const res = await fetch(url);
-    if (!res.ok) {
-      throw new Error(`API request failed with status ${res.status}: ${res.statusText}`);
-    }
-    return await res.json() as T;
-  } finally {
-    const elapsed = Date.now() - startTime;
-    if (elapsed < CONFIG.TMDB_RATE_LIMIT_DELAY_MS) {
-      await new Promise(resolve => 
-        setTimeout(resolve, CONFIG.TMDB_RATE_LIMIT_DELAY_MS - elapsed)
-      );
-    }
-  }
+// Failed movies stay in the range's ledger until a run processes them.
+function recordFailure(state: ProgressState, movie: Movie, reason: string) {
+  const previous = state.failed[movie.id];
+  state.failed[movie.id] = {
+    id: movie.id,
+    title: movie.title,
+    overview: movie.overview,
+    release_date: movie.release_date,
+    vote_average: movie.vote_average,
+    reason,
+    attempts: (previous?.attempts ?? 0) + 1,
+    lastFailedAt: new Date().toISOString()
+  };
 }
 
+// === Helper Functions ===
+// TMDB calls are rate limited and retried by the client itself.
 async function fetchMoviesByYear(year: number, page: number): Promise<Movie[]> {
-  const url = `https://api.themoviedb.org/3/discover/movie?api_key=${process.env.TMDB_API_KEY}&language=en-US&sort_by=popularity.desc&include_adult=false&include_video=false&primary_release_year=${year}&page=${page}`;
-  const data = await fetchWithRateLimit<{ results?: Movie[] }>(url);
+  const data = await getTMDBClient().discoverMovies({ year, page });
   return data.results || [];
 }
 
-async function fetchWatchProviders(movieId: number): Promise<string[]> {
-  const url = `https://api.themoviedb.org/3/movie/${movieId}/watch/providers?api_key=${process.env.TMDB_API_KEY}`;
-  const data = await fetchWithRateLimit<TMDBWatchProvidersResponse>(url);
-  const providers = data.results?.[CONFIG.REGION]?.flatrate || [];
-  return providers.map(p => p.provider_name);
+async function fetchMovieDetails(movieId: number): Promise<MovieDetails> {
+  const data = await getTMDBClient().movieDetails(movieId);
+
+  const directors = (data.credits?.crew || [])
+    .filter(member => member.job === "Director")
+    .map(member => member.name);
+  const cast = [...(data.credits?.cast || [])]
+    .sort((a, b) => a.order - b.order)
+    .slice(0, CONFIG.MAX_CAST)
+    .map(member => member.name);
+
+  return {
+    genres: (data.genres || []).map(g => g.name),
+    director: [...new Set(directors)].join(", "),
+    cast,
+    runtime: data.runtime || undefined,
+    keywords: (data.keywords?.keywords || []).slice(0, CONFIG.MAX_KEYWORDS).map(k => k.name),
+    tagline: data.tagline || undefined,
+  };
+}
+
+async function fetchWatchProviders(movieId: number): Promise<Record<string, RegionAvailability>> {
+  const data = await getTMDBClient().watchProviders(movieId);
+
+  const availability: Record<string, RegionAvailability> = {};
+  for (const [region, offers] of Object.entries(data.results || {})) {
+    const regionAvailability: RegionAvailability = { link: offers.link };
+    for (const type of CONFIG.OFFER_TYPES) {
+      const providers = [...(offers[type] || [])]
+        .sort((a, b) => (a.display_priority ?? 0) - (b.display_priority ?? 0))
+        .map(p => p.provider_name);
+      if (providers.length > 0) regionAvailability[type] = providers;
+    }
+    availability[region] = regionAvailability;
+  }
+  return availability;
 }
 
 async function withRetry<T>(
@@ -198,137 +269,350 @@ async function withRetry<T>(
 }
 // ... (previous imports and configuration remain the same)
 
+// === Batched Lookups ===
+async function findExistingChunks(store: MovieStore, ids: string[]): Promise<Map<string, MovieChunk>> {
+  const existing = new Map<string, MovieChunk>();
+  for (let i = 0; i < ids.length; i += CONFIG.LOOKUP_BATCH_SIZE) {
+    const slice = ids.slice(i, i + CONFIG.LOOKUP_BATCH_SIZE);
+    const docs = await withRetry(
+      () => store.query({ _id: { $in: slice } }),
+      `existence check for ${slice.length} chunks`
+    );
+    for (const doc of docs) existing.set(doc._id, doc);
+  }
+  return existing;
+}
+
+async function findChunksBySource(store: MovieStore, sources: string[]): Promise<Map<string, MovieChunk[]>> {
+  const bySource = new Map<string, MovieChunk[]>();
+  for (let i = 0; i < sources.length; i += CONFIG.LOOKUP_BATCH_SIZE) {
+    const slice = sources.slice(i, i + CONFIG.LOOKUP_BATCH_SIZE);
+    const docs = await withRetry(
+      () => store.query({ source: { $in: slice } }, { includeVector: true }),
+      `existing chunks for ${slice.length} movies`
+    );
+    for (const doc of docs) bySource.set(doc.source, [...(bySource.get(doc.source) ?? []), doc]);
+  }
+  return bySource;
+}
+
+// === Embeddings ===
+// Texts embedded before come from the on-disk cache; the rest are sent in
+// batches of the provider's maximum size. A batch that still fails after its
+// retries leaves its vectors undefined and its texts in `errors`.
+interface EmbeddingStats {
+  computed: number;
+  cached: number;
+}
+
+async function getEmbeddings(
+  texts: string[],
+  cache: EmbeddingCache,
+  stats: EmbeddingStats,
+  errors: Map<string, string>
+): Promise<(number[] | undefined)[]> {
+  const vectors = texts.map(text => cache.get(text));
+  const missing = texts.flatMap((_, i) => (vectors[i] ? [] : [i]));
+  stats.cached += texts.length - missing.length;
+
+  const batchSize = getEmbeddingProvider().maxBatchSize;
+  for (let i = 0; i < missing.length; i += batchSize) {
+    const indexes = missing.slice(i, i + batchSize);
+    const batchTexts = indexes.map(index => texts[index]);
+    let embedded: number[][];
+    try {
+      embedded = await withRetry(
+        () => embedTexts(batchTexts),
+        `embedding batch of ${batchTexts.length} chunks`
+      );
+    } catch (err) {
+      for (const text of batchTexts) errors.set(text, errorMessage(err));
+      continue;
+    }
+    cache.setMany(batchTexts.map((text, k) => ({ text, vector: embedded[k] })));
+    indexes.forEach((index, k) => {
+      vectors[index] = embedded[k];
+    });
+    stats.computed += indexes.length;
+  }
+  return vectors;
+}
+
+// === Movie Preparation ===
+type PreparedMovie = MovieDocument & { movie: Movie };
+
+function isEligible({ title, release_date, vote_average }: Movie): boolean {
+  return Boolean(title && release_date) && vote_average >= CONFIG.MIN_RATING;
+}
+
+function parentChunkId({ title, release_date }: Movie): string {
+  return chunkId(title, release_date, 0);
+}
+
+// Throws when the movie can't be fetched.
+async function prepareMovie(movie: Movie): Promise<PreparedMovie> {
+  const { title, id } = movie;
+  const details = await fetchMovieDetails(id);
+  const availability = await fetchWatchProviders(id);
+  const document = await buildMovieDocument(movie, details, availability, CONFIG.REGION);
+  console.log(`✅ Processed: "${title}" (${document.chunks.length} chunks)`);
+
+  return { movie, ...document };
+}
+
 // === Modified Batch Processing ===
+interface BatchStats {
+  movies: number;
+  chunksWritten: number;
+  duplicates: number;
+  refreshed: number;
+  reembedded: number;
+  orphansDeleted: number;
+  embeddingsComputed: number;
+  embeddingsCached: number;
+  failed: number;
+}
+
+// A page is handled in bulk: one existence lookup, TMDB fetches, cached and
+// batched embeddings, then batched writes. In "ingest" mode movies whose
+// parent chunk is stored are skipped before any TMDB call; parents are
+// written last, so a stored parent means the whole movie was written. In
+// "refresh" mode unchanged text only gets fresh ratings and providers,
+// changed text is re-embedded and leftover chunks are deleted. Movies that
+// fail are recorded in the state's ledger; ones that succeed are cleared
+// from it.
 async function processMovieBatch(
-  collection: any,
+  store: MovieStore,
+  cache: EmbeddingCache,
   movies: Movie[],
-  year: number,
-  page: number
-): Promise<void> {
+  state: ProgressState,
+  options: CliOptions
+): Promise<BatchStats> {
+  const { mode, dryRun } = options;
+  const startedAt = Date.now();
   const limit = pLimit(CONFIG.CONCURRENCY_LIMIT);
-  const batch: ChunkDocument[] = [];
+  const failures = new Map<number, string>();
+
+  const eligible = movies.filter(isEligible);
+  const storedParents = mode === "ingest"
+    ? await findExistingChunks(store, eligible.map(parentChunkId))
+    : new Map<string, MovieChunk>();
   let duplicateCount = 0;
-  let newCount = 0;
+  for (const movie of eligible) {
+    const parent = storedParents.get(parentChunkId(movie));
+    if (parent) duplicateCount += parent.chunk_count ?? 1;
+  }
 
-  const processMovie = async (movie: Movie) => {
+  const prepareOrRecord = async (movie: Movie) => {
     try {
-      const { title, release_date, vote_average, id, overview } = movie;
-      
-      if (!title || !release_date || vote_average < CONFIG.MIN_RATING) {
-        return;
-      }
-
-      const providers = await withRetry(
-        () => fetchWatchProviders(id),
-        `watch providers for ${title} (${id})`
-      );
-
-      const providerText = providers.length > 0 
-        ? `Available on: ${providers.join(", ")}` 
-        : "Availability: Unknown";
-
-      const fullContent = [
-        `Title: ${title}`,
-        `Overview: ${overview || "No overview available."}`,
-        `Rating: ${vote_average}`,
-        `Release Date: ${release_date}`,
-        providerText
-      ].join("\n");
-
-      const chunks = await splitter.splitText(fullContent);
-
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-        const docId = hashId(`${title}_${release_date}_${i}`);
-        
-        // Check for existing document
-        const exists = await withRetry(
-          () => collection.findOne({ _id: docId }, { projection: { _id: 1 } }),
-          `duplicate check for ${docId}`
-        );
-
-        if (exists) {
-          duplicateCount++;
-          continue; // Skip this chunk
-        }
-
-        const vector = await withRetry(
-          () => getGeminiEmbedding(chunk),
-          `embedding for ${title} chunk ${i}`
-        );
-
-        batch.push({
-          _id: docId,
-          $vector: vector,
-          text: chunk,
-          title,
-          release_date,
-          rating: vote_average,
-          where_to_watch: providers,
-          source: `https://www.themoviedb.org/movie/${id}`,
-          chunk_index: i
-        });
-        newCount++;
-      }
-
-      console.log(`✅ Processed: "${title}" (${chunks.length} chunks)`);
+      return await prepareMovie(movie);
     } catch (err) {
       console.error(`❌ Failed to process movie ${movie.id}:`, err);
+      failures.set(movie.id, errorMessage(err));
+      return null;
     }
   };
+  const missing = eligible.filter(movie => !storedParents.has(parentChunkId(movie)));
+  const prepared = (await Promise.all(missing.map(movie => limit(() => prepareOrRecord(movie)))))
+    .filter((movie): movie is PreparedMovie => movie !== null);
+  const movieBySource = new Map(prepared.map(movie => [movie.fields.source, movie.movie]));
+
+  const existingBySource = mode === "refresh"
+    ? await findChunksBySource(store, prepared.map(movie => movie.fields.source))
+    : new Map<string, MovieChunk[]>();
+
+  const batch: MovieChunk[] = [];
+  const pending: MovieChunk[] = [];
+  const orphans: MovieChunk[] = [];
+  let unchangedCount = 0;
+  let reembeddedCount = 0;
+
+  for (const movie of prepared) {
+    const { fields, chunkIds } = movie;
+    const existing = existingBySource.get(fields.source) ?? [];
+    const parent = existing.find(chunk => chunk.chunk_index === 0);
+
+    if (parent?.content_hash === fields.content_hash && existing.every(chunk => chunk.$vector)) {
+      for (const chunk of existing) batch.push({ ...chunk, ...fields });
+      unchangedCount++;
+      continue;
+    }
+    if (existing.length > 0) {
+      // Chunk indexes (or a changed title/date) that the new text no longer produces
+      orphans.push(...existing.filter(chunk => !chunkIds.includes(chunk._id)));
+      reembeddedCount++;
+    }
 
-  await Promise.all(movies.map(movie => limit(() => processMovie(movie))));
+    pending.push(...toChunkDocuments(movie));
+  }
 
   // Report duplicates found during checking
-  if (duplicateCount > 0) {
-    console.log(`⚠️ Skipped ${duplicateCount} duplicate chunks during pre-check`);
+  if (storedParents.size > 0) {
+    console.log(`⚠️ Skipped ${storedParents.size} stored movies (${duplicateCount} chunks) during pre-check`);
+  }
+
+  if (dryRun) {
+    console.log(
+      `🧪 Dry run: would write ${pending.length} new and ${batch.length} refreshed chunks, ` +
+      `delete ${orphans.length} orphaned chunks`
+    );
+    return {
+      movies: eligible.length,
+      chunksWritten: 0,
+      duplicates: duplicateCount,
+      refreshed: unchangedCount,
+      reembedded: reembeddedCount,
+      orphansDeleted: 0,
+      embeddingsComputed: 0,
+      embeddingsCached: 0,
+      failed: failures.size
+    };
   }
 
-  // Insert in batches
-  for (let i = 0; i < batch.length; i += CONFIG.BATCH_INSERT_SIZE) {
-    const batchSlice = batch.slice(i, i + CONFIG.BATCH_INSERT_SIZE);
+  const embeddingStats: EmbeddingStats = { computed: 0, cached: 0 };
+  const embeddingErrors = new Map<string, string>();
+  const vectors = await getEmbeddings(pending.map(doc => doc.text), cache, embeddingStats, embeddingErrors);
+  for (const doc of pending) {
+    const error = embeddingErrors.get(doc.text);
+    const movie = movieBySource.get(doc.source);
+    if (error !== undefined && movie) failures.set(movie.id, `embedding failed: ${error}`);
+  }
+  // A movie with any chunk left unembedded isn't written at all.
+  const failedSources = new Set(
+    [...movieBySource].filter(([, movie]) => failures.has(movie.id)).map(([source]) => source)
+  );
+  pending.forEach((doc, i) => {
+    if (!failedSources.has(doc.source)) batch.push({ ...doc, $vector: vectors[i] });
+  });
+
+  // Upsert in batches, parents last. Once a write fails, the rest of that
+  // movie's chunks are held back so its parent isn't stored without them.
+  const ordered = [...batch.filter(doc => doc.chunk_index !== 0), ...batch.filter(doc => doc.chunk_index === 0)];
+  let writtenCount = 0;
+  for (let i = 0; i < ordered.length; i += CONFIG.BATCH_INSERT_SIZE) {
+    const batchSlice = ordered
+      .slice(i, i + CONFIG.BATCH_INSERT_SIZE)
+      .filter(doc => !failures.has(movieBySource.get(doc.source)?.id));
+    if (batchSlice.length === 0) continue;
     try {
-      const result = await collection.insertMany(batchSlice, { ordered: false });
-      
-      // Handle partial failures in batch insert
-      if (result.insertedCount < batchSlice.length) {
-        const skipped = batchSlice.length - result.insertedCount;
-        console.log(`⚠️ Skipped ${skipped} duplicates in batch insert`);
-      }
-      
-      console.log(`📦 Successfully inserted ${result.insertedCount} chunks`);
+      const written = await withRetry(
+        () => store.upsertChunks(batchSlice),
+        `upsert of ${batchSlice.length} chunks`
+      );
+      writtenCount += written;
+      console.log(`📦 Successfully wrote ${written} chunks`);
     } catch (err) {
-      if (err.code === 11000) { // Duplicate key error
-        // Fallback to individual inserts with duplicate reporting
-        for (const doc of batchSlice) {
-          try {
-            await collection.insertOne(doc);
-            console.log(`➕ Inserted chunk ${doc._id}`);
-          } catch (insertErr) {
-            if (insertErr.code === 11000) {
-              console.log(`⏩ Skipped duplicate chunk ${doc._id}`);
-            } else {
-              console.error(`❌ Failed to insert document ${doc._id}:`, insertErr);
-            }
-          }
-        }
-      } else {
-        console.error("Failed to insert batch:", err);
+      console.error("Failed to write batch:", err);
+      for (const doc of batchSlice) {
+        const movie = movieBySource.get(doc.source);
+        if (movie) failures.set(movie.id, `write failed: ${errorMessage(err)}`);
       }
     }
   }
 
+  for (const movie of movies) {
+    const reason = failures.get(movie.id);
+    if (reason) {
+      recordFailure(state, movie, reason);
+    } else {
+      delete state.failed[movie.id];
+    }
+  }
+
+  // Orphans go only after their replacements are written
+  const orphanIds = orphans
+    .filter(chunk => !failures.has(movieBySource.get(chunk.source)?.id))
+    .map(chunk => chunk._id);
+  let deletedCount = 0;
+  if (orphanIds.length > 0) {
+    try {
+      deletedCount = await withRetry(
+        () => store.deleteChunks(orphanIds),
+        `delete of ${orphanIds.length} orphaned chunks`
+      );
+      console.log(`🗑️ Deleted ${deletedCount} orphaned chunks`);
+    } catch (err) {
+      console.error("Failed to delete orphaned chunks:", err);
+    }
+  }
+
+  // Cached search results and answers built from these movies are now stale
+  const changed = new Set<string>();
+  for (const doc of batch) {
+    const movie = movieBySource.get(doc.source);
+    if (movie && !failures.has(movie.id)) changed.add(String(movie.id));
+  }
+  try {
+    await invalidateMovieCaches([...changed]);
+  } catch (err) {
+    console.warn("Failed to invalidate cached answers:", err);
+  }
+
   // Final summary
+  const minutes = Math.max(Date.now() - startedAt, 1) / 60000;
   console.log(`\n📊 Batch Summary:`);
-  console.log(`- New chunks inserted: ${newCount}`);
-  console.log(`- Duplicates skipped: ${duplicateCount}`);
+  console.log(`- New chunks inserted: ${pending.length}`);
+  if (mode === "ingest") {
+    console.log(`- Duplicates skipped: ${duplicateCount}`);
+  } else {
+    console.log(`- Movies refreshed without re-embedding: ${unchangedCount}`);
+    console.log(`- Movies re-embedded: ${reembeddedCount}`);
+    console.log(`- Orphaned chunks deleted: ${deletedCount}`);
+  }
+  console.log(`- Embeddings: ${embeddingStats.computed} computed, ${embeddingStats.cached} from cache`);
+  if (failures.size > 0) console.log(`- Failed movies (kept for retry-failed): ${failures.size}`);
+  console.log(
+    `⚡ Throughput: ${(eligible.length / minutes).toFixed(1)} movies/min, ` +
+    `${(embeddingStats.computed / minutes).toFixed(1)} embeddings/min`
+  );
+
+  return {
+    movies: eligible.length,
+    chunksWritten: writtenCount,
+    duplicates: duplicateCount,
+    refreshed: unchangedCount,
+    reembedded: reembeddedCount,
+    orphansDeleted: deletedCount,
+    embeddingsComputed: embeddingStats.computed,
+    embeddingsCached: embeddingStats.cached,
+    failed: failures.size
+  };
 }
 
 // ... (rest of the code remains the same)
 // === Main Ingest Function ===
-async function ingestMovies(collection: any, progress: ProgressState) {
-  const { startYear, endYear } = validateEnv();
-  console.log(`🚀 INGESTING MOVIES ${startYear}–${endYear}`);
+type IngestTotals = BatchStats & { pages: number };
+
+function emptyTotals(): IngestTotals {
+  return {
+    pages: 0,
+    movies: 0,
+    chunksWritten: 0,
+    duplicates: 0,
+    refreshed: 0,
+    reembedded: 0,
+    orphansDeleted: 0,
+    embeddingsComputed: 0,
+    embeddingsCached: 0,
+    failed: 0
+  };
+}
+
+function addStats(totals: IngestTotals, stats: BatchStats) {
+  totals.pages++;
+  for (const key of Object.keys(stats) as (keyof BatchStats)[]) totals[key] += stats[key];
+}
+
+// Adds to `totals` as pages finish, so a run that stops early still reports what it wrote.
+async function ingestMovies(
+  store: MovieStore,
+  cache: EmbeddingCache,
+  progress: ProgressState,
+  options: CliOptions,
+  totals: IngestTotals
+): Promise<void> {
+  const { startYear, endYear, mode } = options;
+  console.log(`🚀 ${mode === "refresh" ? "REFRESHING" : "INGESTING"} MOVIES ${startYear}–${endYear}`);
 
   for (let year = progress.currentYear; year <= endYear; year++) {
     console.log(`\n📅 YEAR ${year}`);
@@ -338,10 +622,7 @@ async function ingestMovies(collection: any, progress: ProgressState) {
       console.log(`  📄 Page ${page}`);
       
       try {
-        const movies = await withRetry(
-          () => fetchMoviesByYear(year, page),
-          `fetch movies year=${year} page=${page}`
-        );
+        const movies = await fetchMoviesByYear(year, page);
 
         if (movies.length === 0) {
           console.log(`  🏁 No more movies for ${year}`);
@@ -349,14 +630,15 @@ async function ingestMovies(collection: any, progress: ProgressState) {
           break;
         }
 
-        await processMovieBatch(collection, movies, year, page);
+        const stats = await processMovieBatch(store, cache, movies, progress, options);
+        addStats(totals, stats);
         progress.lastSuccessfulPage[year] = page;
-        saveProgress(progress);
+        saveProgress(progress, options);
         page++;
       } catch (err) {
         console.error(`💥 Critical error processing year ${year} page ${page}:`, err);
         progress.currentYear = year;
-        saveProgress(progress);
+        saveProgress(progress, options);
         throw err; // Stop execution on critical errors
       }
     }
@@ -365,42 +647,256 @@ async function ingestMovies(collection: any, progress: ProgressState) {
     if (page > CONFIG.MAX_PAGES_PER_YEAR || progress.completedYears.includes(year)) {
       progress.currentYear = year + 1;
       delete progress.lastSuccessfulPage[year];
-      saveProgress(progress);
+      saveProgress(progress, options);
     }
   }
 
   console.log("🎉 Ingest completed successfully!");
 }
 
+// === Lexical Index ===
+// Rebuilt after every run that wrote or deleted chunks, even one that stopped
+// early, so the server never has to scan the store to search by keyword.
+function storeChanged(totals: BatchStats): boolean {
+  return totals.chunksWritten + totals.orphansDeleted > 0;
+}
+
+async function rebuildLexicalIndex(store: MovieStore) {
+  try {
+    const movies = await withRetry(() => writeLexicalIndex(store), "lexical index rebuild");
+    console.log(`🔤 Lexical index: ${movies} movies at ${getLexicalIndexPath()}`);
+  } catch (err) {
+    console.error("Failed to rebuild the lexical index (run the index command to retry):", err);
+  }
+}
+
+// Invalidation only reaches a running chat server through the file cache; an
+// in-memory one keeps serving answers cached before this run until they expire.
+function warnIfCachesUnshared() {
+  if (getCacheConfig().mode !== "memory") return;
+  console.warn(
+    "⚠️ CACHE_BACKEND=memory: a running chat server keeps its cached answers for up to a day. " +
+    "Restart it, or run both with CACHE_BACKEND=file and the same CACHE_DIR."
+  );
+}
+
+// === Commands ===
+// Each command returns a JSON-serializable result and prints a readable
+// summary unless --json was given.
+function printResult(options: CliOptions, result: object, summary: () => void) {
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  } else {
+    summary();
+  }
+}
+
+async function openEmbeddingCache(): Promise<EmbeddingCache> {
+  const cache = createEmbeddingCache(CONFIG.EMBEDDING_CACHE_FILE, getEmbeddingProvider());
+  console.log(`🗄️ Embedding cache: ${cache.size} vectors at ${CONFIG.EMBEDDING_CACHE_FILE}`);
+  return cache;
+}
+
+function printTotals(totals: IngestTotals) {
+  console.log(`\n📊 Run Summary:`);
+  console.log(`- Pages: ${totals.pages}, movies: ${totals.movies}, failed: ${totals.failed}`);
+  console.log(`- Chunks written: ${totals.chunksWritten}, orphans deleted: ${totals.orphansDeleted}`);
+  console.log(`- Embeddings: ${totals.embeddingsComputed} computed, ${totals.embeddingsCached} from cache`);
+}
+
+async function runIngest(store: MovieStore, options: CliOptions) {
+  if (!options.dryRun) acquireLock(CONFIG.PROGRESS_DIR, rangeOf(options));
+  await store.ensureReady(getAIConfig().embedding.dimension);
+  const cache = await openEmbeddingCache();
+
+  const startedAt = Date.now();
+  const totals = emptyTotals();
+  try {
+    await ingestMovies(store, cache, loadProgress(options), options, totals);
+  } finally {
+    if (storeChanged(totals)) {
+      await rebuildLexicalIndex(store);
+      warnIfCachesUnshared();
+    }
+  }
+  const result = {
+    command: "ingest",
+    mode: options.mode,
+    dryRun: options.dryRun,
+    from: options.startYear,
+    to: options.endYear,
+    ...totals,
+    elapsedMs: Date.now() - startedAt
+  };
+  printResult(options, result, () => printTotals(totals));
+}
+
+// Reprocesses the range's failed movies in page-sized groups.
+async function runRetryFailed(store: MovieStore, options: CliOptions) {
+  if (!options.dryRun) acquireLock(CONFIG.PROGRESS_DIR, rangeOf(options));
+  const progress = loadProgress(options);
+  const failed = Object.values(progress.failed);
+  console.log(`🔁 Retrying ${failed.length} failed movies for ${options.startYear}–${options.endYear}`);
+
+  const totals = emptyTotals();
+  if (failed.length > 0) {
+    await store.ensureReady(getAIConfig().embedding.dimension);
+    const cache = await openEmbeddingCache();
+    for (let i = 0; i < failed.length; i += CONFIG.RETRY_GROUP_SIZE) {
+      const movies: Movie[] = failed
+        .slice(i, i + CONFIG.RETRY_GROUP_SIZE)
+        .map(({ id, title, overview, release_date, vote_average }) => ({ id, title, overview, release_date, vote_average }));
+      addStats(totals, await processMovieBatch(store, cache, movies, progress, options));
+      saveProgress(progress, options);
+    }
+    if (storeChanged(totals)) {
+      await rebuildLexicalIndex(store);
+      warnIfCachesUnshared();
+    }
+  }
+
+  const result = {
+    command: "retry-failed",
+    mode: options.mode,
+    dryRun: options.dryRun,
+    from: options.startYear,
+    to: options.endYear,
+    retried: failed.length,
+    stillFailing: Object.values(progress.failed).map(({ id, title, reason, attempts }) => ({ id, title, reason, attempts })),
+    ...totals
+  };
+  printResult(options, result, () => {
+    printTotals(totals);
+    console.log(`- Still failing: ${result.stillFailing.length}`);
+  });
+}
+
+async function runStatus(store: MovieStore, options: CliOptions) {
+  const counts = await countByYear(store);
+  const progress = listProgress(CONFIG.PROGRESS_DIR).map(state => ({
+    ...state.range,
+    currentYear: state.currentYear,
+    completedYears: state.completedYears,
+    failed: Object.keys(state.failed).length
+  }));
+  printResult(options, { command: "status", store: store.kind, ...counts, progress }, () => {
+    console.log(`📚 ${counts.movies} movies in ${counts.chunks} chunks (${store.kind} store)`);
+    for (const { year, movies, chunks } of counts.years) {
+      console.log(`  ${year ?? "unknown"}: ${movies} movies, ${chunks} chunks`);
+    }
+    if (progress.length === 0) console.log("⏩ No runs in progress");
+    for (const { mode, from, to, currentYear, completedYears, failed } of progress) {
+      console.log(
+        `⏩ ${mode} ${from}–${to}: at year ${currentYear}, ` +
+        `completed ${completedYears.join(", ") || "none"}, ${failed} failed movies`
+      );
+    }
+  });
+}
+
+async function runVerify(store: MovieStore, options: CliOptions) {
+  const report = await verifyStore(store);
+  const missingFields = Object.fromEntries(
+    Object.entries(report.missingFields).map(([field, ids]) => [field, summarizeIds(ids)])
+  );
+  const result = {
+    command: "verify",
+    checked: report.checked,
+    missingVector: summarizeIds(report.missingVector),
+    missingFields,
+    stale: summarizeIds(report.stale),
+    ok: prunableIds(report).length === 0 && Object.keys(missingFields).length === 0
+  };
+  printResult(options, result, () => {
+    console.log(`🔍 Checked ${report.checked} chunks`);
+    console.log(`- Missing vectors: ${report.missingVector.length}`);
+    for (const [field, { count }] of Object.entries(missingFields)) {
+      console.log(`- Missing ${field}: ${count}`);
+    }
+    console.log(`- Stale chunks: ${report.stale.length}`);
+    console.log(result.ok ? "✅ Store looks healthy" : "⚠️ Run refresh to backfill fields, prune to drop unusable chunks");
+  });
+}
+
+async function runPrune(store: MovieStore, options: CliOptions) {
+  const ids = prunableIds(await verifyStore(store));
+  const deleted = options.dryRun || ids.length === 0
+    ? 0
+    : await withRetry(() => store.deleteChunks(ids), `delete of ${ids.length} chunks`);
+  if (deleted > 0) await rebuildLexicalIndex(store);
+  printResult(options, { command: "prune", dryRun: options.dryRun, prunable: summarizeIds(ids), deleted }, () => {
+    console.log(options.dryRun
+      ? `🧪 Dry run: would delete ${ids.length} chunks`
+      : `🗑️ Deleted ${deleted} of ${ids.length} prunable chunks`);
+  });
+}
+
+async function runIndex(store: MovieStore, options: CliOptions) {
+  const path = getLexicalIndexPath();
+  const movies = options.dryRun ? 0 : await writeLexicalIndex(store, path);
+  printResult(options, { command: "index", dryRun: options.dryRun, path, movies }, () => {
+    console.log(options.dryRun ? `🧪 Dry run: would rebuild ${path}` : `🔤 Indexed ${movies} movies at ${path}`);
+  });
+}
+
+// Restarts the range from its first year. Failed movies stay in the ledger.
+function runResetProgress(options: CliOptions) {
+  const range = rangeOf(options);
+  const file = progressPath(CONFIG.PROGRESS_DIR, range);
+  const existing = readProgress(CONFIG.PROGRESS_DIR, range);
+  const failed = existing ? Object.keys(existing.failed).length : 0;
+
+  if (existing && !options.dryRun) {
+    acquireLock(CONFIG.PROGRESS_DIR, range);
+    if (failed > 0) {
+      writeProgress(CONFIG.PROGRESS_DIR, { ...emptyProgress(range), failed: existing.failed });
+    } else {
+      removeProgress(CONFIG.PROGRESS_DIR, range);
+    }
+  }
+  printResult(options, { command: "reset-progress", file, existed: existing !== null, keptFailed: failed, dryRun: options.dryRun }, () => {
+    if (!existing) {
+      console.log(`ℹ️ No progress file at ${file}`);
+      return;
+    }
+    console.log(`🧹 ${options.dryRun ? "Would reset" : "Reset"} ${file}${failed > 0 ? ` (keeping ${failed} failed movies)` : ""}`);
+  });
+}
+
 // === Main Execution ===
 async function main() {
   try {
-    validateEnv();
-    
-    const collectionName = process.env.ASTRA_DB_COLLECTION!;
-    try {
-      await db.createCollection(collectionName, {
-        vector: { 
-          dimension: CONFIG.VECTOR_DIMENSION, 
-          metric: "cosine" 
-        }
-      });
-      console.log("✅ Collection created");
-    } catch (err) {
-      if (err.message.includes("already exists")) {
-        console.log("ℹ️ Collection already exists");
-      } else {
-        throw err;
-      }
+    const options = parseCli(process.argv.slice(2));
+    // Exit normally on Ctrl+C so the range's lock file is removed.
+    process.on("SIGINT", () => process.exit(130));
+    // Keep stdout for the JSON result.
+    if (options.json) console.log = console.error;
+    validateEnv(options.command);
+
+    if (options.command === "reset-progress") {
+      runResetProgress(options);
+      return;
     }
 
-    const collection = await db.collection(collectionName);
-    const progress = loadProgress();
-    await ingestMovies(collection, progress);
+    const store = getMovieStore();
+    switch (options.command) {
+      case "ingest":
+        return await runIngest(store, options);
+      case "retry-failed":
+        return await runRetryFailed(store, options);
+      case "status":
+        return await runStatus(store, options);
+      case "verify":
+        return await runVerify(store, options);
+      case "prune":
+        return await runPrune(store, options);
+      case "index":
+        return await runIndex(store, options);
+    }
   } catch (err) {
     console.error("💀 Fatal error:", err);
     process.exit(1);
   }
 }
 
-main();
\ No newline at end of file
+main();
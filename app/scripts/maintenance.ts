@@ -0,0 +1,122 @@
+import { movieId } from "../../lib/movies/ids";
+import type { MovieChunk, MovieStore } from "../../lib/store";
+
+// === Store Maintenance ===
+// Reports over the stored chunks for the ingest CLI's status, verify and
+// prune commands. Vectors are never loaded; missing ones are found by filter.
+
+// Fields every chunk written by the current ingester carries
+const REQUIRED_FIELDS: (keyof MovieChunk)[] = [
+  "title",
+  "text",
+  "source",
+  "release_date",
+  "rating",
+  "chunk_index",
+  "title_key",
+  "release_year",
+  "content_hash",
+];
+
+// Without these a chunk can't be shown or attributed, so prune removes it.
+const CORE_FIELDS: (keyof MovieChunk)[] = ["title", "text", "source"];
+
+const SAMPLE_SIZE = 10;
+
+export interface YearCount {
+  year: number | null;
+  movies: number;
+  chunks: number;
+}
+
+export interface StoreCounts {
+  movies: number;
+  chunks: number;
+  years: YearCount[];
+}
+
+export interface VerifyReport {
+  checked: number;
+  missingVector: string[];
+  missingFields: Partial<Record<keyof MovieChunk, string[]>>;
+  // Chunks left behind by an older version of their movie
+  stale: string[];
+}
+
+export interface IdSummary {
+  count: number;
+  sample: string[];
+}
+
+function yearOf(chunk: MovieChunk): number | null {
+  const year = chunk.release_year ?? parseInt(chunk.release_date?.slice(0, 4) ?? "", 10);
+  return Number.isNaN(year) ? null : year;
+}
+
+export function summarizeIds(ids: string[]): IdSummary {
+  return { count: ids.length, sample: ids.slice(0, SAMPLE_SIZE) };
+}
+
+export async function countByYear(store: MovieStore): Promise<StoreCounts> {
+  const chunks = await store.query({});
+  const years = new Map<number | null, { movies: Set<string>; chunks: number }>();
+
+  for (const chunk of chunks) {
+    const year = yearOf(chunk);
+    const entry = years.get(year) ?? { movies: new Set<string>(), chunks: 0 };
+    entry.movies.add(movieId(chunk));
+    entry.chunks++;
+    years.set(year, entry);
+  }
+
+  return {
+    movies: new Set(chunks.map(movieId)).size,
+    chunks: chunks.length,
+    years: [...years.entries()]
+      .map(([year, entry]) => ({ year, movies: entry.movies.size, chunks: entry.chunks }))
+      .sort((a, b) => (a.year ?? 0) - (b.year ?? 0)),
+  };
+}
+
+export async function verifyStore(store: MovieStore): Promise<VerifyReport> {
+  const chunks = await store.query({});
+  const withoutVector = await store.query({ $vector: { $exists: false } });
+
+  const missingFields: VerifyReport["missingFields"] = {};
+  for (const chunk of chunks) {
+    for (const field of REQUIRED_FIELDS) {
+      if (chunk[field] === undefined || chunk[field] === null || chunk[field] === "") {
+        (missingFields[field] ??= []).push(chunk._id);
+      }
+    }
+  }
+
+  const parents = new Map<string, MovieChunk>();
+  for (const chunk of chunks) {
+    if (chunk.chunk_index === 0) parents.set(movieId(chunk), chunk);
+  }
+  const stale = chunks
+    .filter(chunk => {
+      const parent = parents.get(movieId(chunk));
+      if (!parent) return true;
+      if (parent.chunk_count !== undefined && chunk.chunk_index >= parent.chunk_count) return true;
+      return Boolean(parent.content_hash && chunk.content_hash && parent.content_hash !== chunk.content_hash);
+    })
+    .map(chunk => chunk._id);
+
+  return {
+    checked: chunks.length,
+    missingVector: withoutVector.map(chunk => chunk._id),
+    missingFields,
+    stale,
+  };
+}
+
+// Chunks that can't be searched or shown, or that belong to an outdated split.
+export function prunableIds(report: VerifyReport): string[] {
+  const ids = new Set([...report.missingVector, ...report.stale]);
+  for (const field of CORE_FIELDS) {
+    for (const id of report.missingFields[field] ?? []) ids.add(id);
+  }
+  return [...ids];
+}
@@ -0,0 +1,134 @@
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+
+// === Ingest Progress ===
+// One state file per mode and year range, so runs over different ranges
+// never share (or overwrite) each other's position. Writes go through a
+// temp file and rename, and a lock file keeps two runs off the same range.
+
+export type IngestMode = "ingest" | "refresh";
+
+export interface IngestRange {
+  mode: IngestMode;
+  from: number;
+  to: number;
+}
+
+// A movie that failed to process, with the discover-list fields needed to retry it.
+export interface FailedMovie {
+  id: number;
+  title: string;
+  overview: string;
+  release_date: string;
+  vote_average: number;
+  reason: string;
+  attempts: number;
+  lastFailedAt: string;
+}
+
+export interface ProgressState {
+  range: IngestRange;
+  currentYear: number;
+  completedYears: number[];
+  lastSuccessfulPage: Record<number, number>;
+  // Keyed by TMDB id
+  failed: Record<string, FailedMovie>;
+}
+
+const FILE_PATTERN = /^progress-(ingest|refresh)-(\d{4})-(\d{4})\.json$/;
+
+export function progressPath(dir: string, range: IngestRange): string {
+  return join(dir, `progress-${range.mode}-${range.from}-${range.to}.json`);
+}
+
+export function emptyProgress(range: IngestRange): ProgressState {
+  return { range, currentYear: range.from, completedYears: [], lastSuccessfulPage: {}, failed: {} };
+}
+
+export function readProgress(dir: string, range: IngestRange): ProgressState | null {
+  const path = progressPath(dir, range);
+  if (!existsSync(path)) return null;
+  try {
+    return { ...emptyProgress(range), ...JSON.parse(readFileSync(path, "utf-8")) };
+  } catch (err) {
+    console.warn(`Failed to read ${path}:`, err);
+    return null;
+  }
+}
+
+export function listProgress(dir: string): ProgressState[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .map(name => name.match(FILE_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, mode, from, to]) => readProgress(dir, { mode: mode as IngestMode, from: +from, to: +to }))
+    .filter((state): state is ProgressState => state !== null);
+}
+
+export function writeProgress(dir: string, state: ProgressState): void {
+  mkdirSync(dir, { recursive: true });
+  const path = progressPath(dir, state.range);
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+  renameSync(tmpPath, path);
+}
+
+export function removeProgress(dir: string, range: IngestRange): boolean {
+  const path = progressPath(dir, range);
+  if (!existsSync(path)) return false;
+  unlinkSync(path);
+  return true;
+}
+
+// === Lock ===
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to someone else.
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// Takes the range's lock or throws if a live process holds it. A lock left
+// by a crashed run is taken over. The lock is released when the process exits.
+export function acquireLock(dir: string, range: IngestRange): void {
+  mkdirSync(dir, { recursive: true });
+  const lockPath = `${progressPath(dir, range)}.lock`;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const fd = openSync(lockPath, "wx");
+      writeFileSync(fd, String(process.pid));
+      closeSync(fd);
+      process.on("exit", () => {
+        try {
+          unlinkSync(lockPath);
+        } catch {
+          // Already gone
+        }
+      });
+      return;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      const holder = parseInt(readFileSync(lockPath, "utf-8"), 10);
+      if (!Number.isNaN(holder) && isRunning(holder)) {
+        throw new Error(`Another ${range.mode} run for ${range.from}–${range.to} is in progress (pid ${holder})`);
+      }
+      console.warn(`⚠️ Removing stale lock left by pid ${holder}`);
+      unlinkSync(lockPath);
+    }
+  }
+  throw new Error(`Could not acquire ${lockPath}`);
+}
@@ -0,0 +1,74 @@
+import crypto from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import type { EmbeddingProvider } from "./types";
+
+// === Embedding Cache ===
+// Append-only JSON lines file of vectors keyed by a hash of the embedding
+// model and the text, so re-running an ingest doesn't pay for embeddings it
+// already has. Vectors are stored as base64 float32 to keep the file small.
+
+export interface EmbeddingCache {
+  readonly size: number;
+  get(text: string): number[] | undefined;
+  setMany(entries: { text: string; vector: number[] }[]): void;
+}
+
+interface CacheLine {
+  key: string;
+  vector: string;
+}
+
+type ModelInfo = Pick<EmbeddingProvider, "name" | "model" | "dimension">;
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString("base64");
+}
+
+function decodeVector(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, "base64");
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.length / 4));
+}
+
+export function createEmbeddingCache(path: string, model: ModelInfo): EmbeddingCache {
+  const namespace = `${model.name}:${model.model}:${model.dimension}`;
+  const keyFor = (text: string) =>
+    crypto.createHash("sha256").update(namespace).update("\n").update(text).digest("hex");
+
+  const entries = new Map<string, string>();
+  if (existsSync(path)) {
+    for (const line of readFileSync(path, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const { key, vector } = JSON.parse(line) as CacheLine;
+        entries.set(key, vector);
+      } catch {
+        // A line cut short by an interrupted run; the text is re-embedded.
+      }
+    }
+  }
+
+  return {
+    get size() {
+      return entries.size;
+    },
+
+    get(text) {
+      const encoded = entries.get(keyFor(text));
+      return encoded ? decodeVector(encoded) : undefined;
+    },
+
+    setMany(newEntries) {
+      const lines: string[] = [];
+      for (const { text, vector } of newEntries) {
+        const line: CacheLine = { key: keyFor(text), vector: encodeVector(vector) };
+        if (entries.has(line.key)) continue;
+        entries.set(line.key, line.vector);
+        lines.push(JSON.stringify(line));
+      }
+      if (lines.length === 0) return;
+      mkdirSync(dirname(path), { recursive: true });
+      appendFileSync(path, `${lines.join("\n")}\n`);
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import type { GenerationConfig, ProviderName } from "./types";
+
+// === Defaults per provider ===
+const DEFAULT_EMBEDDING_MODELS: Record<ProviderName, { model: string; dimension: number }> = {
+  gemini: { model: "models/embedding-001", dimension: 768 },
+  openai: { model: "text-embedding-3-small", dimension: 768 },
+  ollama: { model: "nomic-embed-text", dimension: 768 },
+  fake: { model: "fake-hash-embedding", dimension: 768 },
+};
+
+const DEFAULT_CHAT_MODELS: Record<ProviderName, string> = {
+  gemini: "gemini-1.5-flash-latest",
+  openai: "gpt-4o-mini",
+  ollama: "llama3.1",
+  fake: "fake-chat",
+};
+
+const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  temperature: 0.4,
+  topP: 0.9,
+  maxOutputTokens: 1500,
+};
+
+const PROVIDER_API_KEYS: Partial<Record<ProviderName, string>> = {
+  gemini: "GOOGLE_API_KEY",
+  openai: "OPENAI_API_KEY",
+};
+
+export interface AIConfig {
+  embedding: { provider: ProviderName; model: string; dimension: number };
+  chat: { provider: ProviderName; model: string; generation: GenerationConfig };
+  ollamaBaseUrl: string;
+}
+
+function parseProvider(value: string | undefined, variable: string): ProviderName {
+  const name = (value || "gemini").toLowerCase();
+  if (!(name in DEFAULT_CHAT_MODELS)) {
+    throw new Error(`Unknown ${variable} "${name}" (expected gemini, openai, ollama or fake)`);
+  }
+  return name as ProviderName;
+}
+
+function parseNumber(value: string | undefined, fallback: number, variable: string): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) throw new Error(`Invalid ${variable}: ${value}`);
+  return parsed;
+}
+
+export function getAIConfig(env: NodeJS.ProcessEnv = process.env): AIConfig {
+  const embeddingProvider = parseProvider(env.EMBEDDING_PROVIDER, "EMBEDDING_PROVIDER");
+  const chatProvider = parseProvider(env.CHAT_PROVIDER, "CHAT_PROVIDER");
+  const embeddingDefaults = DEFAULT_EMBEDDING_MODELS[embeddingProvider];
+
+  return {
+    embedding: {
+      provider: embeddingProvider,
+      model: env.EMBEDDING_MODEL || embeddingDefaults.model,
+      dimension: parseNumber(env.EMBEDDING_DIMENSION, embeddingDefaults.dimension, "EMBEDDING_DIMENSION"),
+    },
+    chat: {
+      provider: chatProvider,
+      model: env.CHAT_MODEL || DEFAULT_CHAT_MODELS[chatProvider],
+      generation: {
+        temperature: parseNumber(env.CHAT_TEMPERATURE, DEFAULT_GENERATION_CONFIG.temperature, "CHAT_TEMPERATURE"),
+        topP: parseNumber(env.CHAT_TOP_P, DEFAULT_GENERATION_CONFIG.topP, "CHAT_TOP_P"),
+        maxOutputTokens: parseNumber(
+          env.CHAT_MAX_OUTPUT_TOKENS,
+          DEFAULT_GENERATION_CONFIG.maxOutputTokens,
+          "CHAT_MAX_OUTPUT_TOKENS"
+        ),
+      },
+    },
+    ollamaBaseUrl: env.OLLAMA_BASE_URL || "http://localhost:11434",
+  };
+}
+
+export function requiredAIEnvVars(config: AIConfig = getAIConfig()): string[] {
+  const vars = [config.embedding.provider, config.chat.provider]
+    .map(provider => PROVIDER_API_KEYS[provider])
+    .filter((v): v is string => Boolean(v));
+  return [...new Set(vars)];
+}
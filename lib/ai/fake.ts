@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import type { ChatProvider, EmbeddingProvider } from "./types";
+
+// Deterministic, network-free providers for tests and offline development.
+// Embeddings use feature hashing over word tokens, so texts that share words
+// end up close to each other and cosine search still behaves sensibly.
+
+function hashToken(token: string): Buffer {
+  return crypto.createHash("sha256").update(token).digest();
+}
+
+export function fakeEmbedding(text: string, dimension: number): number[] {
+  const vector = new Array<number>(dimension).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  for (const token of tokens) {
+    const digest = hashToken(token);
+    const index = digest.readUInt32BE(0) % dimension;
+    const sign = digest[4] & 1 ? 1 : -1;
+    vector[index] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    // Empty text still gets a stable, non-zero vector.
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map(v => v / norm);
+}
+
+export function createFakeEmbeddingProvider(model: string, dimension: number): EmbeddingProvider {
+  return {
+    name: "fake",
+    model,
+    dimension,
+    maxBatchSize: 1000,
+    async embed(text) {
+      return fakeEmbedding(text, dimension);
+    },
+    async embedMany(texts) {
+      return texts.map(text => fakeEmbedding(text, dimension));
+    },
+  };
+}
+
+function fakeResponse(model: string, prompt: string): string {
+  const digest = hashToken(prompt).toString("hex").slice(0, 8);
+  const firstLine = prompt.trim().split("\n")[0];
+  return `[${model} ${digest}] ${firstLine}`;
+}
+
+export function createFakeChatProvider(model: string): ChatProvider {
+  return {
+    name: "fake",
+    model,
+    async generate(prompt) {
+      return fakeResponse(model, prompt);
+    },
+    async *stream(prompt) {
+      // Word-sized deltas, like a real model.
+      for (const piece of fakeResponse(model, prompt).match(/\S+\s*/g) ?? []) {
+        yield piece;
+      }
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { ChatProvider, EmbeddingProvider, GenerationConfig } from "./types";
+
+let client: GoogleGenerativeAI | null = null;
+
+function getClient(): GoogleGenerativeAI {
+  if (!client) client = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
+  return client;
+}
+
+export function createGeminiEmbeddingProvider(model: string, dimension: number): EmbeddingProvider {
+  const embeddingModel = getClient().getGenerativeModel({ model });
+
+  return {
+    name: "gemini",
+    model,
+    dimension,
+    maxBatchSize: 100,
+    async embed(text) {
+      const result = await embeddingModel.embedContent({
+        content: { role: "user", parts: [{ text }] },
+      });
+      return result.embedding.values;
+    },
+    async embedMany(texts) {
+      const result = await embeddingModel.batchEmbedContents({
+        requests: texts.map(text => ({ content: { role: "user", parts: [{ text }] } })),
+      });
+      return result.embeddings.map(embedding => embedding.values);
+    },
+  };
+}
+
+export function createGeminiChatProvider(model: string, generation: GenerationConfig): ChatProvider {
+  const chatModel = getClient().getGenerativeModel({ model, generationConfig: generation });
+
+  return {
+    name: "gemini",
+    model,
+    async generate(prompt, options = {}) {
+      const result = await chatModel.generateContent(
+        { contents: [{ role: "user", parts: [{ text: prompt }] }] },
+        { signal: options.signal }
+      );
+      return result.response.text();
+    },
+    async *stream(prompt, options = {}) {
+      const result = await chatModel.generateContentStream(
+        { contents: [{ role: "user", parts: [{ text: prompt }] }] },
+        { signal: options.signal }
+      );
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+  };
+}
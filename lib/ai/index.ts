@@ -0,0 +1,83 @@
+import { getAIConfig } from "./config";
+import { createFakeChatProvider, createFakeEmbeddingProvider } from "./fake";
+import { createGeminiChatProvider, createGeminiEmbeddingProvider } from "./gemini";
+import { createOllamaChatProvider, createOllamaEmbeddingProvider } from "./ollama";
+import { createOpenAIChatProvider, createOpenAIEmbeddingProvider } from "./openai";
+import type { ChatProvider, EmbeddingProvider } from "./types";
+
+export * from "./types";
+export { getAIConfig, requiredAIEnvVars, type AIConfig } from "./config";
+export { fakeEmbedding } from "./fake";
+export { createEmbeddingCache, type EmbeddingCache } from "./cache";
+
+let embeddingProvider: EmbeddingProvider | null = null;
+let chatProvider: ChatProvider | null = null;
+
+export function createEmbeddingProvider(config = getAIConfig()): EmbeddingProvider {
+  const { provider, model, dimension } = config.embedding;
+  switch (provider) {
+    case "gemini":
+      return createGeminiEmbeddingProvider(model, dimension);
+    case "openai":
+      return createOpenAIEmbeddingProvider(model, dimension);
+    case "ollama":
+      return createOllamaEmbeddingProvider(config.ollamaBaseUrl, model, dimension);
+    case "fake":
+      return createFakeEmbeddingProvider(model, dimension);
+  }
+}
+
+export function createChatProvider(config = getAIConfig()): ChatProvider {
+  const { provider, model, generation } = config.chat;
+  switch (provider) {
+    case "gemini":
+      return createGeminiChatProvider(model, generation);
+    case "openai":
+      return createOpenAIChatProvider(model, generation);
+    case "ollama":
+      return createOllamaChatProvider(config.ollamaBaseUrl, model, generation);
+    case "fake":
+      return createFakeChatProvider(model);
+  }
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) embeddingProvider = createEmbeddingProvider();
+  return embeddingProvider;
+}
+
+export function getChatProvider(): ChatProvider {
+  if (!chatProvider) chatProvider = createChatProvider();
+  return chatProvider;
+}
+
+// Vectors are checked against the configured dimension, so a model swap
+// can't silently write vectors the collection can't compare.
+function checkDimension(provider: EmbeddingProvider, vector: number[]): number[] {
+  if (vector.length !== provider.dimension) {
+    throw new Error(
+      `Embedding model ${provider.model} returned ${vector.length} dimensions, expected ${provider.dimension}`
+    );
+  }
+  return vector;
+}
+
+export async function embedText(text: string): Promise<number[]> {
+  const provider = getEmbeddingProvider();
+  return checkDimension(provider, await provider.embed(text));
+}
+
+// Embeds many texts with as few provider calls as its batch limit allows.
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const provider = getEmbeddingProvider();
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += provider.maxBatchSize) {
+    const batch = texts.slice(i, i + provider.maxBatchSize);
+    const results = await provider.embedMany(batch);
+    if (results.length !== batch.length) {
+      throw new Error(`Embedding model ${provider.model} returned ${results.length} vectors for ${batch.length} texts`);
+    }
+    vectors.push(...results.map(vector => checkDimension(provider, vector)));
+  }
+  return vectors;
+}
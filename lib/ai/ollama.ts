@@ -0,0 +1,110 @@
+import type { ChatProvider, EmbeddingProvider, GenerateOptions, GenerationConfig } from "./types";
+
+// Talks to an Ollama-compatible HTTP server (`ollama serve`, LocalAI, ...).
+
+interface OllamaChatChunk {
+  message?: { content?: string };
+  done?: boolean;
+}
+
+async function post(baseUrl: string, path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  const res = await fetch(`${baseUrl.replace(/\/$/, "")}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) {
+    throw new Error(`Ollama request ${path} failed with status ${res.status}: ${res.statusText}`);
+  }
+  return res;
+}
+
+async function postJson<T>(baseUrl: string, path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  return (await (await post(baseUrl, path, body, signal)).json()) as T;
+}
+
+// Streaming responses are newline-delimited JSON objects.
+async function* readJsonLines<T>(res: Response): AsyncIterable<T> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T;
+      }
+    }
+    if (buffer.trim()) yield JSON.parse(buffer) as T;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function createOllamaEmbeddingProvider(
+  baseUrl: string,
+  model: string,
+  dimension: number
+): EmbeddingProvider {
+  const embedMany = async (texts: string[]) => {
+    const data = await postJson<{ embeddings: number[][] }>(baseUrl, "/api/embed", {
+      model,
+      input: texts,
+    });
+    return data.embeddings;
+  };
+
+  return {
+    name: "ollama",
+    model,
+    dimension,
+    maxBatchSize: 64,
+    async embed(text) {
+      return (await embedMany([text]))[0];
+    },
+    embedMany,
+  };
+}
+
+export function createOllamaChatProvider(
+  baseUrl: string,
+  model: string,
+  generation: GenerationConfig
+): ChatProvider {
+  const requestBody = (prompt: string, stream: boolean) => ({
+    model,
+    stream,
+    messages: [{ role: "user", content: prompt }],
+    options: {
+      temperature: generation.temperature,
+      top_p: generation.topP,
+      num_predict: generation.maxOutputTokens,
+    },
+  });
+
+  return {
+    name: "ollama",
+    model,
+    async generate(prompt, options: GenerateOptions = {}) {
+      const data = await postJson<OllamaChatChunk>(
+        baseUrl,
+        "/api/chat",
+        requestBody(prompt, false),
+        options.signal
+      );
+      return data.message?.content ?? "";
+    },
+    async *stream(prompt, options: GenerateOptions = {}) {
+      const res = await post(baseUrl, "/api/chat", requestBody(prompt, true), options.signal);
+      for await (const chunk of readJsonLines<OllamaChatChunk>(res)) {
+        if (chunk.message?.content) yield chunk.message.content;
+        if (chunk.done) break;
+      }
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import OpenAI from "openai";
+import type { ChatProvider, EmbeddingProvider, GenerationConfig } from "./types";
+
+let client: OpenAI | null = null;
+
+function getClient(): OpenAI {
+  if (!client) client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return client;
+}
+
+export function createOpenAIEmbeddingProvider(model: string, dimension: number): EmbeddingProvider {
+  return {
+    name: "openai",
+    model,
+    dimension,
+    maxBatchSize: 256,
+    async embed(text) {
+      // text-embedding-3 models can be truncated to match the collection's dimension.
+      const result = await getClient().embeddings.create({ model, input: text, dimensions: dimension });
+      return result.data[0].embedding;
+    },
+    async embedMany(texts) {
+      const result = await getClient().embeddings.create({ model, input: texts, dimensions: dimension });
+      return [...result.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    },
+  };
+}
+
+function requestBody(model: string, prompt: string, generation: GenerationConfig) {
+  return {
+    model,
+    messages: [{ role: "user" as const, content: prompt }],
+    temperature: generation.temperature,
+    top_p: generation.topP,
+    max_tokens: generation.maxOutputTokens,
+  };
+}
+
+export function createOpenAIChatProvider(model: string, generation: GenerationConfig): ChatProvider {
+  return {
+    name: "openai",
+    model,
+    async generate(prompt, options = {}) {
+      const result = await getClient().chat.completions.create(
+        { ...requestBody(model, prompt, generation) },
+        { signal: options.signal }
+      );
+      return result.choices[0]?.message?.content ?? "";
+    },
+    async *stream(prompt, options = {}) {
+      const stream = await getClient().chat.completions.create(
+        { ...requestBody(model, prompt, generation), stream: true },
+        { signal: options.signal }
+      );
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
@@ -0,0 +1,30 @@
+export type ProviderName = "gemini" | "openai" | "ollama" | "fake";
+
+export interface GenerationConfig {
+  temperature: number;
+  topP: number;
+  maxOutputTokens: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly dimension: number;
+  // Most texts a single embedMany call accepts.
+  readonly maxBatchSize: number;
+  embed(text: string): Promise<number[]>;
+  // Vectors in the same order as `texts`.
+  embedMany(texts: string[]): Promise<number[][]>;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+}
+
+export interface ChatProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  // Yields text deltas as the model produces them.
+  stream(prompt: string, options?: GenerateOptions): AsyncIterable<string>;
+}
@@ -0,0 +1,10 @@
+export * from "./types";
+export {
+  isMovieListName,
+  validateAddToListRequest,
+  validateChatRequest,
+  type ListRequestValidation,
+  type RequestValidation,
+} from "./validate";
+export { errorResponse, listsResponse, rejectionResponse, unknownListResponse } from "./responses";
+export { getViewer, readViewerId, withViewerCookie, type Viewer } from "./viewer";
@@ -0,0 +1,33 @@
+import { ERROR_STATUS, type ChatErrorCode } from "../../chat/errors";
+import type { LimitRejection } from "../../chat/limits";
+import { MOVIE_LIST_NAMES, type MovieLists } from "../../lists/types";
+import { API_VERSION, type ChatErrorResponseV1, type ChatErrorV1, type MovieListsResponseV1 } from "./types";
+
+// === Error Responses ===
+const REJECTION_CODES: Record<LimitRejection["httpStatus"], ChatErrorCode> = {
+  400: "INVALID_REQUEST",
+  413: "PAYLOAD_TOO_LARGE",
+  429: "RATE_LIMITED",
+};
+
+export function errorResponse(error: ChatErrorV1, headers: Record<string, string> = {}): Response {
+  const body: ChatErrorResponseV1 = { apiVersion: API_VERSION, error };
+  if (error.retryAfterSeconds !== undefined) headers = { ...headers, "Retry-After": String(error.retryAfterSeconds) };
+  return Response.json(body, { status: ERROR_STATUS[error.code], headers });
+}
+
+export function rejectionResponse({ httpStatus, message, retryAfterSeconds }: LimitRejection): Response {
+  return errorResponse({ code: REJECTION_CODES[httpStatus], message, retryAfterSeconds });
+}
+
+export function listsResponse(lists: MovieLists): Response {
+  const body: MovieListsResponseV1 = { apiVersion: API_VERSION, ...lists };
+  return Response.json(body);
+}
+
+export function unknownListResponse(list: string): Response {
+  return errorResponse({
+    code: "NO_MATCH",
+    message: `There is no "${list}" list; use ${MOVIE_LIST_NAMES.join(" or ")}.`,
+  });
+}
@@ -0,0 +1,97 @@
+import type { Citation } from "../../chat/citations";
+import type { ChatErrorCode } from "../../chat/errors";
+import type { QueryIntent } from "../../chat/intent";
+import type { MovieCard } from "../../chat/stream";
+import type { MovieListEntry, MovieListName } from "../../lists";
+
+// === Chat API v1 ===
+// The contract of POST /api/v1/chat, shared by the route and its clients.
+// Type-only imports keep server code out of client bundles.
+
+export type { ChatErrorCode, MovieCard, MovieListEntry, MovieListName };
+
+export const API_VERSION = "v1";
+export const MAX_RESULT_LIMIT = 10;
+
+// === Request ===
+export type ChatRole = "user" | "assistant";
+
+export interface ChatMessageV1 {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatOptionsV1 {
+  // ISO 3166-1 code for where-to-watch answers; defaults from Accept-Language
+  region?: string;
+  // Movies in list answers (similar movies, ranked lists), 1 to MAX_RESULT_LIMIT
+  limit?: number;
+}
+
+export interface ChatRequestV1 {
+  // Oldest first; the last message is the user's question
+  messages: ChatMessageV1[];
+  // The previous response's activeMovieIds, so follow-ups like "who's in it?" resolve
+  activeMovieIds?: string[];
+  options?: ChatOptionsV1;
+}
+
+// === Response ===
+// JSON by default; with `Accept: text/event-stream` the answer streams as
+// ChatStreamEventV1 events instead.
+export type ChatSourceV1 = Citation & { cited: boolean };
+
+export interface ChatResponseV1 {
+  apiVersion: typeof API_VERSION;
+  intent: QueryIntent["kind"];
+  // Markdown; [n] cites sources[n - 1]
+  answer: string;
+  sources: ChatSourceV1[];
+  activeMovieIds: string[];
+}
+
+export type ChatStreamEventV1 =
+  | { event: "movies"; data: { movies: MovieCard[] } }
+  | { event: "token"; data: { text: string } }
+  | { event: "done"; data: { activeMovieIds: string[] } }
+  | { event: "error"; data: ChatErrorV1 };
+
+// === Movie Lists ===
+// GET /api/v1/lists returns both lists; POST /api/v1/lists/{list} adds a
+// movie and DELETE /api/v1/lists/{list}/{tmdbId} removes one, and both
+// answer with the updated lists.
+export interface AddToListRequestV1 {
+  // As in MovieCard.id
+  tmdbId: string;
+  // Seen-list only; liked movies' genres are favoured in recommendations
+  liked?: boolean;
+}
+
+export interface MovieListsResponseV1 {
+  apiVersion: typeof API_VERSION;
+  // Newest first
+  watchlist: MovieListEntry[];
+  seen: MovieListEntry[];
+}
+
+// === Errors ===
+// Every non-2xx response has this body; `code` is stable, `message` is for people.
+export interface ValidationIssue {
+  // e.g. "messages[2].role"
+  path: string;
+  message: string;
+}
+
+export interface ChatErrorV1 {
+  code: ChatErrorCode;
+  message: string;
+  // INVALID_REQUEST only
+  issues?: ValidationIssue[];
+  // RATE_LIMITED only; also sent as Retry-After
+  retryAfterSeconds?: number;
+}
+
+export interface ChatErrorResponseV1 {
+  apiVersion: typeof API_VERSION;
+  error: ChatErrorV1;
+}
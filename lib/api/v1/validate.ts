@@ -0,0 +1,138 @@
+import { MOVIE_LIST_NAMES, type MovieListName } from "../../lists/types";
+import {
+  MAX_RESULT_LIMIT,
+  type AddToListRequestV1,
+  type ChatMessageV1,
+  type ChatOptionsV1,
+  type ChatRequestV1,
+  type ValidationIssue,
+} from "./types";
+
+// === Request Validation ===
+// Checks a parsed body against ChatRequestV1 and collects every problem, so
+// a client sees all of them at once. Unknown fields are rejected too, which
+// catches misspelled options instead of silently ignoring them.
+
+export type RequestValidation =
+  | { status: "valid"; request: ChatRequestV1 }
+  | { status: "invalid"; issues: ValidationIssue[] };
+
+const REQUEST_FIELDS = ["messages", "activeMovieIds", "options"];
+const OPTION_FIELDS = ["region", "limit"];
+const ROLES = ["user", "assistant"];
+const REGION_PATTERN = /^[A-Za-z]{2}$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function unknownFields(value: Record<string, unknown>, allowed: string[], prefix: string): ValidationIssue[] {
+  return Object.keys(value)
+    .filter(key => !allowed.includes(key))
+    .map(key => ({ path: `${prefix}${key}`, message: "Unknown field" }));
+}
+
+function validateMessages(messages: unknown, issues: ValidationIssue[]): ChatMessageV1[] {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    issues.push({ path: "messages", message: "Must be a non-empty array of messages" });
+    return [];
+  }
+  messages.forEach((message, i) => {
+    const path = `messages[${i}]`;
+    if (!isObject(message)) {
+      issues.push({ path, message: "Must be an object with role and content" });
+      return;
+    }
+    if (!ROLES.includes(message.role as string)) {
+      issues.push({ path: `${path}.role`, message: `Must be one of ${ROLES.join(", ")}` });
+    }
+    if (typeof message.content !== "string") {
+      issues.push({ path: `${path}.content`, message: "Must be a string" });
+    }
+    issues.push(...unknownFields(message, ["role", "content"], `${path}.`));
+  });
+
+  const last = messages[messages.length - 1];
+  if (isObject(last) && last.role === "assistant") {
+    issues.push({ path: `messages[${messages.length - 1}].role`, message: "The last message must be the user's question" });
+  }
+  if (isObject(last) && typeof last.content === "string" && !last.content.trim()) {
+    issues.push({ path: `messages[${messages.length - 1}].content`, message: "The question is empty" });
+  }
+  return messages as ChatMessageV1[];
+}
+
+function validateOptions(options: unknown, issues: ValidationIssue[]): ChatOptionsV1 | undefined {
+  if (options === undefined) return undefined;
+  if (!isObject(options)) {
+    issues.push({ path: "options", message: "Must be an object" });
+    return undefined;
+  }
+  const { region, limit } = options;
+  if (region !== undefined && (typeof region !== "string" || !REGION_PATTERN.test(region))) {
+    issues.push({ path: "options.region", message: "Must be a two-letter ISO 3166-1 code, e.g. \"US\"" });
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > MAX_RESULT_LIMIT)) {
+    issues.push({ path: "options.limit", message: `Must be an integer from 1 to ${MAX_RESULT_LIMIT}` });
+  }
+  issues.push(...unknownFields(options, OPTION_FIELDS, "options."));
+  return options as ChatOptionsV1;
+}
+
+export function validateChatRequest(body: unknown): RequestValidation {
+  if (!isObject(body)) {
+    return { status: "invalid", issues: [{ path: "", message: "The body must be a JSON object" }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const messages = validateMessages(body.messages, issues);
+  const options = validateOptions(body.options, issues);
+
+  const { activeMovieIds } = body;
+  if (
+    activeMovieIds !== undefined &&
+    (!Array.isArray(activeMovieIds) || activeMovieIds.some(id => typeof id !== "string"))
+  ) {
+    issues.push({ path: "activeMovieIds", message: "Must be an array of strings" });
+  }
+  issues.push(...unknownFields(body, REQUEST_FIELDS, ""));
+
+  if (issues.length > 0) return { status: "invalid", issues };
+  return {
+    status: "valid",
+    request: { messages, activeMovieIds: activeMovieIds as string[] | undefined, options },
+  };
+}
+
+// === List Validation ===
+export type ListRequestValidation =
+  | { status: "valid"; request: AddToListRequestV1 }
+  | { status: "invalid"; issues: ValidationIssue[] };
+
+const TMDB_ID_PATTERN = /^\d+$/;
+
+export function isMovieListName(name: string): name is MovieListName {
+  return MOVIE_LIST_NAMES.includes(name as MovieListName);
+}
+
+export function validateAddToListRequest(list: MovieListName, body: unknown): ListRequestValidation {
+  if (!isObject(body)) {
+    return { status: "invalid", issues: [{ path: "", message: "The body must be a JSON object" }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const { tmdbId, liked } = body;
+  if (typeof tmdbId !== "string" || !TMDB_ID_PATTERN.test(tmdbId)) {
+    issues.push({ path: "tmdbId", message: "Must be a TMDB movie id as a string of digits" });
+  }
+  if (liked !== undefined && typeof liked !== "boolean") {
+    issues.push({ path: "liked", message: "Must be a boolean" });
+  }
+  if (liked !== undefined && list !== "seen") {
+    issues.push({ path: "liked", message: "Only movies on the seen list can be liked" });
+  }
+  issues.push(...unknownFields(body, ["tmdbId", "liked"], ""));
+
+  if (issues.length > 0) return { status: "invalid", issues };
+  return { status: "valid", request: { tmdbId: tmdbId as string, liked: liked as boolean | undefined } };
+}
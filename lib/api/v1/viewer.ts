@@ -0,0 +1,42 @@
+import { randomUUID } from "crypto";
+
+// === Viewer Identity ===
+// Watchlists and seen-lists belong to whoever holds the viewer cookie, an
+// opaque random id set when the browser first adds a movie to a list. There
+// are no accounts: another browser, or cleared cookies, starts with empty
+// lists, and the store forgets viewers who stay away long enough.
+
+export const VIEWER_COOKIE = "cinerag_viewer";
+
+const VIEWER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const VIEWER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+export interface Viewer {
+  id: string;
+  // Not sent by the client yet, so the response has to set the cookie
+  isNew: boolean;
+}
+
+// The id from the request's cookie, if it holds a well-formed one.
+export function readViewerId(headers: Headers): string | undefined {
+  for (const pair of (headers.get("cookie") ?? "").split(";")) {
+    const [name, value] = pair.trim().split("=");
+    if (name === VIEWER_COOKIE && VIEWER_ID_PATTERN.test(value ?? "")) return value;
+  }
+  return undefined;
+}
+
+export function getViewer(headers: Headers): Viewer {
+  const id = readViewerId(headers);
+  return id ? { id, isNew: false } : { id: randomUUID(), isNew: true };
+}
+
+export function withViewerCookie(response: Response, viewer: Viewer): Response {
+  if (viewer.isNew) {
+    response.headers.append(
+      "Set-Cookie",
+      `${VIEWER_COOKIE}=${viewer.id}; Path=/; Max-Age=${VIEWER_COOKIE_MAX_AGE}; HttpOnly; SameSite=Lax`
+    );
+  }
+  return response;
+}
@@ -0,0 +1,84 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { CacheBackend, CacheEntry } from "./types";
+
+// === File Backend ===
+// One JSON file per entry under `<dir>/<namespace>/`, so the cache survives
+// restarts and is shared by every process pointed at the same directory.
+// Invalidation doesn't scan the entries: it records when each tag was
+// invalidated in `invalidations.json`, and an entry stored before one of its
+// tags' timestamps is treated as a miss (and deleted) when it is next read.
+
+const INVALIDATIONS_FILE = "invalidations.json";
+
+// Writes go through a temp file and rename, so a reader never sees half an entry.
+function writeAtomic(path: string, data: unknown) {
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(data));
+  renameSync(tmpPath, path);
+}
+
+export function createFileCacheBackend(dir: string): CacheBackend {
+  const invalidationsPath = join(dir, INVALIDATIONS_FILE);
+  let invalidations: { mtimeMs: number; stamps: Record<string, number> } = { mtimeMs: -1, stamps: {} };
+
+  const entryPath = (namespace: string, key: string) => join(dir, namespace, `${key}.json`);
+
+  // Re-read only when another process (or this one) has changed the file.
+  const readInvalidations = (): Record<string, number> => {
+    if (!existsSync(invalidationsPath)) return {};
+    const { mtimeMs } = statSync(invalidationsPath);
+    if (mtimeMs !== invalidations.mtimeMs) {
+      try {
+        invalidations = { mtimeMs, stamps: JSON.parse(readFileSync(invalidationsPath, "utf-8")) };
+      } catch (err) {
+        console.warn(`Failed to read ${invalidationsPath}:`, err);
+      }
+    }
+    return invalidations.stamps;
+  };
+
+  const isCurrent = (entry: CacheEntry) => {
+    const stamps = readInvalidations();
+    return entry.tags.every(tag => (stamps[tag] ?? -Infinity) < entry.storedAt);
+  };
+
+  return {
+    kind: "file",
+
+    async get(namespace, key) {
+      const path = entryPath(namespace, key);
+      if (!existsSync(path)) return undefined;
+      let entry: CacheEntry;
+      try {
+        entry = JSON.parse(readFileSync(path, "utf-8"));
+      } catch {
+        // Unreadable entries are recomputed and overwritten.
+        return undefined;
+      }
+      if (entry.expiresAt <= Date.now() || !isCurrent(entry)) {
+        rmSync(path, { force: true });
+        return undefined;
+      }
+      return entry;
+    },
+
+    async set(namespace, key, entry) {
+      mkdirSync(join(dir, namespace), { recursive: true });
+      writeAtomic(entryPath(namespace, key), entry);
+    },
+
+    async invalidate(tags) {
+      if (tags.length === 0) return;
+      mkdirSync(dir, { recursive: true });
+      const now = Date.now();
+      const stamps = { ...readInvalidations() };
+      for (const tag of tags) stamps[tag] = now;
+      writeAtomic(invalidationsPath, stamps);
+    },
+
+    async isCurrent(entry) {
+      return isCurrent(entry);
+    },
+  };
+}
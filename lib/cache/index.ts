@@ -0,0 +1,106 @@
+import crypto from "crypto";
+import { createFileCacheBackend } from "./file";
+import { createMemoryCacheBackend } from "./memory";
+import type { Cache, CacheBackend, CacheEntry } from "./types";
+
+export * from "./types";
+
+// === Cache Configuration ===
+// An LRU in memory always sits in front; CACHE_BACKEND=file adds the
+// persistent backend behind it, and CACHE_BACKEND=off disables caching.
+export type CacheMode = "memory" | "file" | "off";
+
+export interface CacheConfig {
+  mode: CacheMode;
+  dir: string;
+  maxEntries: number;
+}
+
+const CACHE_MODES: CacheMode[] = ["memory", "file", "off"];
+const DEFAULT_CACHE_DIR = ".data/cache";
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export function getCacheConfig(env: NodeJS.ProcessEnv = process.env): CacheConfig {
+  const mode = (env.CACHE_BACKEND || "memory").toLowerCase() as CacheMode;
+  if (!CACHE_MODES.includes(mode)) {
+    throw new Error(`Unknown CACHE_BACKEND "${mode}" (expected memory, file or off)`);
+  }
+  const maxEntries = env.CACHE_MAX_ENTRIES ? Number(env.CACHE_MAX_ENTRIES) : DEFAULT_MAX_ENTRIES;
+  if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+    throw new Error(`Invalid CACHE_MAX_ENTRIES: ${env.CACHE_MAX_ENTRIES}`);
+  }
+  return { mode, dir: env.CACHE_DIR || DEFAULT_CACHE_DIR, maxEntries };
+}
+
+// Stable key for any JSON-serializable parts.
+export function cacheKey(...parts: unknown[]): string {
+  return crypto.createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+// === Tiered Cache ===
+interface Backends {
+  memory: CacheBackend;
+  persistent?: CacheBackend;
+}
+
+let backends: Backends | null | undefined;
+
+function getBackends(): Backends | null {
+  if (backends === undefined) {
+    const config = getCacheConfig();
+    backends = config.mode === "off"
+      ? null
+      : {
+          memory: createMemoryCacheBackend(config.maxEntries),
+          persistent: config.mode === "file" ? createFileCacheBackend(config.dir) : undefined,
+        };
+  }
+  return backends;
+}
+
+async function readEntry({ memory, persistent }: Backends, namespace: string, key: string) {
+  const cached = await memory.get(namespace, key);
+  if (cached && (!persistent || (await persistent.isCurrent(cached)))) return cached;
+  if (!persistent) return undefined;
+
+  const stored = await persistent.get(namespace, key);
+  if (stored) await memory.set(namespace, key, stored);
+  return stored;
+}
+
+// A cache that fails to read or write is logged and treated as a miss; it
+// never fails the request.
+export function getCache<T>(namespace: string, ttlMs: number): Cache<T> {
+  return {
+    async get(key) {
+      const tiers = getBackends();
+      if (!tiers) return undefined;
+      try {
+        return (await readEntry(tiers, namespace, key))?.value as T | undefined;
+      } catch (err) {
+        console.warn(`Cache read failed (${namespace}):`, err);
+        return undefined;
+      }
+    },
+
+    async set(key, value, tags = []) {
+      const tiers = getBackends();
+      if (!tiers) return;
+      const storedAt = Date.now();
+      const entry: CacheEntry<T> = { value, tags, storedAt, expiresAt: storedAt + ttlMs };
+      try {
+        await tiers.memory.set(namespace, key, entry);
+        await tiers.persistent?.set(namespace, key, entry);
+      } catch (err) {
+        console.warn(`Cache write failed (${namespace}):`, err);
+      }
+    },
+  };
+}
+
+export async function invalidateTags(tags: string[]): Promise<void> {
+  const tiers = getBackends();
+  if (!tiers || tags.length === 0) return;
+  await tiers.memory.invalidate(tags);
+  await tiers.persistent?.invalidate(tags);
+}
@@ -0,0 +1,47 @@
+import type { CacheBackend, CacheEntry } from "./types";
+
+// In-process LRU: a Map keeps insertion order, so a hit is moved to the end
+// and the first entry is the least recently used one. Values are copied in
+// and out so callers can't change what is cached by sorting a result.
+
+export function createMemoryCacheBackend(maxEntries: number): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+  const keyOf = (namespace: string, key: string) => `${namespace}:${key}`;
+
+  return {
+    kind: "memory",
+
+    async get(namespace, key) {
+      const id = keyOf(namespace, key);
+      const entry = entries.get(id);
+      if (!entry) return undefined;
+      entries.delete(id);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(id, entry);
+      return structuredClone(entry);
+    },
+
+    async set(namespace, key, entry) {
+      const id = keyOf(namespace, key);
+      entries.delete(id);
+      entries.set(id, structuredClone(entry));
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+
+    async invalidate(tags) {
+      const stale = new Set(tags);
+      for (const [id, entry] of entries) {
+        if (entry.tags.some(tag => stale.has(tag))) entries.delete(id);
+      }
+    },
+
+    // Invalidation deletes entries straight away, so anything left is current.
+    async isCurrent() {
+      return true;
+    },
+  };
+}
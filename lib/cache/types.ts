@@ -0,0 +1,30 @@
+// === Cache Entries ===
+// Values are plain JSON. Tags name what an entry was derived from (e.g. a
+// movie id), so it can be dropped when that source changes.
+export interface CacheEntry<T = unknown> {
+  value: T;
+  tags: string[];
+  storedAt: number;
+  expiresAt: number;
+}
+
+// === Backends ===
+export interface CacheBackend {
+  readonly kind: CacheBackendKind;
+  get(namespace: string, key: string): Promise<CacheEntry | undefined>;
+  set(namespace: string, key: string, entry: CacheEntry): Promise<void>;
+  // Makes every entry tagged with one of `tags` and stored before now a miss,
+  // including in other processes sharing a persistent backend.
+  invalidate(tags: string[]): Promise<void>;
+  // False when the entry has been invalidated since it was stored; lets an
+  // in-memory copy be checked against invalidations made elsewhere.
+  isCurrent(entry: CacheEntry): Promise<boolean>;
+}
+
+export type CacheBackendKind = "memory" | "file";
+
+// A namespace of one kind of value with its own time to live.
+export interface Cache<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T, tags?: string[]): Promise<void>;
+}
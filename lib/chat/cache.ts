@@ -0,0 +1,170 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { embedText, getAIConfig } from "../ai";
+import { cacheKey, getCache, invalidateTags } from "../cache";
+import { embeddingFailed } from "./errors";
+
+// === Chat Caches ===
+// Three layers, each keyed so a model or prompt change can't serve stale
+// results: query embeddings (by normalized query and embedding model),
+// retrieval results (by query, filter and embedding model) and generated
+// answers (by resolved movies, intent, region and chat model / prompt
+// version). Entries are tagged with the movies they contain, and the
+// ingester invalidates those tags when it writes a movie.
+
+export type CacheLayer = "embedding" | "retrieval" | "answer";
+
+export interface LayerStats {
+  hits: number;
+  misses: number;
+}
+
+export type CacheTrace = Partial<Record<CacheLayer, LayerStats>>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const TTL_MS: Record<CacheLayer, number> = {
+  // A query's vector only changes with the model, which is part of the key.
+  embedding: 7 * 24 * HOUR_MS,
+  // Every ingest drops them anyway; this bounds what a missed invalidation costs.
+  retrieval: HOUR_MS / 6,
+  answer: 24 * HOUR_MS,
+};
+
+// Search results depend on the whole collection, not only on the movies they
+// contain, so any ingest drops all of them.
+const RETRIEVAL_TAG = "retrieval";
+
+const embeddingCache = getCache<number[]>("embedding", TTL_MS.embedding);
+const retrievalCache = getCache<unknown>("retrieval", TTL_MS.retrieval);
+const answerCache = getCache<string>("answer", TTL_MS.answer);
+
+// === Request Trace ===
+// Lookups made while handling a request are counted per layer, so the route
+// can report them in response headers without threading a counter through
+// every retrieval call.
+const traces = new AsyncLocalStorage<CacheTrace>();
+
+function record(layer: CacheLayer, hit: boolean) {
+  const trace = traces.getStore();
+  if (!trace) return;
+  const stats = (trace[layer] ??= { hits: 0, misses: 0 });
+  if (hit) stats.hits++;
+  else stats.misses++;
+}
+
+export async function traceCache<T>(run: () => Promise<T>): Promise<{ result: T; trace: CacheTrace }> {
+  const trace: CacheTrace = {};
+  const result = await traces.run(trace, run);
+  return { result, trace };
+}
+
+// `X-Cache` is HIT when every lookup the request made was served from the
+// cache; `X-Cache-Lookups` lists hits/lookups per layer, e.g.
+// "embedding=1/1, retrieval=0/2".
+export function cacheHeaders(trace: CacheTrace): Record<string, string> {
+  const layers = Object.entries(trace) as [CacheLayer, LayerStats][];
+  const allHits = layers.length > 0 && layers.every(([, stats]) => stats.misses === 0);
+  return {
+    "X-Cache": allHits ? "HIT" : "MISS",
+    "X-Cache-Lookups": layers.map(([layer, { hits, misses }]) => `${layer}=${hits}/${hits + misses}`).join(", "),
+  };
+}
+
+// === Keys and Tags ===
+// Case, spacing and trailing punctuation don't change what is being asked.
+export function normalizeQuery(query: string): string {
+  return query.normalize("NFKC").toLowerCase().replace(/[?!.\s]+$/, "").replace(/\s+/g, " ").trim();
+}
+
+function movieTag(id: string): string {
+  return `movie:${id}`;
+}
+
+function embeddingModelKey(): string {
+  const { provider, model, dimension } = getAIConfig().embedding;
+  return `${provider}:${model}:${dimension}`;
+}
+
+// Chat model and prompt version for answer keys; bump the prompt version when
+// a prompt changes so answers written for the old one aren't served.
+export function answerCacheKey(promptVersion: number, ...parts: unknown[]): string {
+  const { provider, model } = getAIConfig().chat;
+  return cacheKey(`${provider}:${model}`, promptVersion, ...parts);
+}
+
+// === Cached Lookups ===
+export async function embedQuery(query: string): Promise<number[]> {
+  const normalized = normalizeQuery(query);
+  const key = cacheKey(embeddingModelKey(), normalized);
+  const cached = await embeddingCache.get(key);
+  record("embedding", cached !== undefined);
+  if (cached) return cached;
+
+  let vector: number[];
+  try {
+    vector = await embedText(normalized);
+  } catch (error) {
+    throw embeddingFailed(error);
+  }
+  await embeddingCache.set(key, vector);
+  return vector;
+}
+
+// `keyParts` must cover every input of `search`. `movieIds` lists the movies
+// in a result; empty results aren't cached, since a failed search returns
+// nothing too.
+export async function cachedRetrieval<T>(
+  keyParts: unknown[],
+  search: () => Promise<T>,
+  movieIds: (result: T) => string[]
+): Promise<T> {
+  const key = cacheKey(embeddingModelKey(), ...keyParts);
+  const cached = (await retrievalCache.get(key)) as T | undefined;
+  record("retrieval", cached !== undefined);
+  if (cached !== undefined) return cached;
+
+  const result = await search();
+  const ids = movieIds(result);
+  if (ids.length > 0) await retrievalCache.set(key, result, [RETRIEVAL_TAG, ...ids.map(movieTag)]);
+  return result;
+}
+
+async function* cachedText(text: string): AsyncIterable<string> {
+  yield text;
+}
+
+// Passes `stream` through and stores the text once it completes. Answers that
+// were cut short (an aborted request, a failed model call) or came out empty
+// are not stored.
+async function* storeWhenDone(
+  key: string,
+  tags: string[],
+  stream: AsyncIterable<string>,
+  signal?: AbortSignal
+): AsyncIterable<string> {
+  let text = "";
+  for await (const chunk of stream) {
+    text += chunk;
+    yield chunk;
+  }
+  if (text.trim() && !signal?.aborted) await answerCache.set(key, text, tags);
+}
+
+// Looked up before the response starts, so the hit can go in its headers.
+export async function cachedAnswer(
+  key: string,
+  movieIds: string[],
+  generate: () => AsyncIterable<string>,
+  signal?: AbortSignal
+): Promise<AsyncIterable<string>> {
+  const cached = await answerCache.get(key);
+  record("answer", cached !== undefined);
+  if (cached !== undefined) return cachedText(cached);
+  return storeWhenDone(key, movieIds.map(movieTag), generate(), signal);
+}
+
+// === Invalidation ===
+// Called by the ingester after it writes or deletes a movie's chunks.
+export async function invalidateMovieCaches(movieIds: string[]): Promise<void> {
+  if (movieIds.length === 0) return;
+  await invalidateTags([RETRIEVAL_TAG, ...movieIds.map(movieTag)]);
+}
@@ -0,0 +1,59 @@
+import { movieId } from "../movies/ids";
+import type { RetrievalScores } from "../search/fusion";
+import type { MovieChunk } from "../store";
+import { cite, movieYear } from "./format";
+
+// === Citations ===
+// An answer cites the movies it draws on as [1], [2], ... numbered in the
+// order of the answer's `movies`, so marker n always refers to sources[n - 1].
+
+export type CitedMovie = MovieChunk & { $similarity?: number; $scores?: RetrievalScores };
+
+export interface Citation {
+  marker: number;
+  id: string;
+  title: string;
+  year: string;
+  source: string;
+  similarity?: number;
+  scores?: RetrievalScores;
+  // The chunks that matched the query, or the parent document when the
+  // movie was looked up by title.
+  chunkIds: string[];
+}
+
+const MARKER_PATTERN = /\[(\d+)\]/g;
+
+export function toCitations(movies: CitedMovie[]): Citation[] {
+  return movies.map((movie, index) => ({
+    marker: index + 1,
+    id: movieId(movie),
+    title: movie.title,
+    year: movieYear(movie),
+    source: movie.source,
+    similarity: movie.$similarity,
+    scores: movie.$scores,
+    chunkIds: movie.$scores?.vector?.chunkIds ?? [movie._id],
+  }));
+}
+
+// Drops markers the model made up that point past the last source.
+export function withValidMarkers(text: string, sourceCount: number): string {
+  return text.replace(MARKER_PATTERN, (marker, n: string) => {
+    const index = parseInt(n, 10);
+    return index >= 1 && index <= sourceCount ? marker : "";
+  });
+}
+
+export function citedMarkers(text: string): number[] {
+  const markers = new Set<number>();
+  for (const [, n] of text.matchAll(MARKER_PATTERN)) markers.add(parseInt(n, 10));
+  return [...markers].sort((a, b) => a - b);
+}
+
+// For plain-text answers, which have no other way to resolve the markers.
+export function sourcesFooter(citations: Citation[]): string {
+  if (citations.length === 0) return "";
+  const lines = citations.map(c => `${cite(c.marker)} ${c.title} (${c.year}): ${c.source}`);
+  return `\n\n**Sources**\n${lines.join("\n")}`;
+}
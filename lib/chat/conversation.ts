@@ -0,0 +1,174 @@
+import { getMoviesByIds } from "../movies/lookup";
+import { extractSearchFilters } from "../search/filters";
+import { getMovieStore, type MovieChunk } from "../store";
+import { parseQueryIntent, parseTitleRef, type QueryIntent, type TitleRef } from "./intent";
+import type { ViewerPreferences } from "./preferences";
+import { DEFAULT_REGION } from "./region";
+
+// === Conversation State ===
+// The client sends the whole message list plus the movie ids the previous
+// answer was about; follow-ups like "who's in it?" are resolved against them.
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ConversationContext {
+  activeMovies: MovieChunk[];
+  history: string;
+  // ISO 3166-1 code used for availability answers
+  region: string;
+  // Movies per list answer (similar movies, ranked lists), when the client set one
+  resultLimit?: number;
+  // From the viewer's watchlist and seen-list; absent when there are none
+  preferences?: ViewerPreferences;
+}
+
+const MAX_ACTIVE_MOVIES = 10;
+const RECENT_TURNS = 4;
+const MAX_TURN_CHARS = 300;
+const MAX_EARLIER_TOPICS = 5;
+
+const ORDINALS: Record<string, number> = {
+  first: 0, "1st": 0, second: 1, "2nd": 1, third: 2, "3rd": 2, fourth: 3, "4th": 3, fifth: 4, "5th": 4,
+};
+
+const REFERENCE_PATTERN =
+  /^(?:it|that|this|them|(?:that|this|the) (?:one|movie|film|flick))$/i;
+const ORDINAL_PATTERN =
+  /^(?:the )?(first|second|third|fourth|fifth|1st|2nd|3rd|4th|5th|last)(?: one| movie| film)?$/i;
+
+// "anything similar but shorter?", "more like that"
+const ELLIPTICAL_SIMILAR_PATTERN =
+  /^(?:(?:any|some)(?:thing|one)?|more|other)(?: (?:movies|films))?(?: else)? (?:similar|like (?:it|that|this(?: one)?))(?:,? but (.+))?$/i;
+// "what about Ronin?", "and the 80s?"
+const ELLIPTICAL_SWITCH_PATTERN = /^(?:and|what about|how about)\s+(.+)$/i;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// Bounded history for the generation prompt: earlier user questions as a
+// one-line topic list, the last few turns verbatim (truncated).
+export function summarizeHistory(messages: ChatMessage[]): string {
+  if (messages.length === 0) return "";
+  const recent = messages.slice(-RECENT_TURNS);
+  const earlier = messages
+    .slice(0, -RECENT_TURNS)
+    .filter(m => m.role === "user")
+    .slice(-MAX_EARLIER_TOPICS)
+    .map(m => truncate(m.content, 80));
+
+  const lines: string[] = [];
+  if (earlier.length > 0) lines.push(`Earlier the user asked: ${earlier.join("; ")}`);
+  for (const message of recent) {
+    const speaker = message.role === "user" ? "User" : "Assistant";
+    lines.push(`${speaker}: ${truncate(message.content.replace(/\s+/g, " "), MAX_TURN_CHARS)}`);
+  }
+  return lines.join("\n");
+}
+
+export async function loadConversationContext(
+  messages: ChatMessage[],
+  activeMovieIds: string[] = [],
+  region = DEFAULT_REGION
+): Promise<ConversationContext> {
+  let activeMovies: MovieChunk[] = [];
+  if (activeMovieIds.length > 0) {
+    try {
+      activeMovies = await getMoviesByIds(getMovieStore(), activeMovieIds.slice(0, MAX_ACTIVE_MOVIES));
+    } catch (error) {
+      console.error("Active movie lookup error:", error);
+    }
+  }
+  // The last message is the query being answered, not history.
+  return { activeMovies, history: summarizeHistory(messages.slice(0, -1)), region };
+}
+
+// === Follow-up Resolution ===
+function referencedMovie(title: string, activeMovies: MovieChunk[]): MovieChunk | undefined {
+  const phrase = title.trim().toLowerCase();
+  if (REFERENCE_PATTERN.test(phrase)) return activeMovies[0];
+
+  const ordinal = phrase.match(ORDINAL_PATTERN);
+  if (ordinal) {
+    const word = ordinal[1].toLowerCase();
+    return word === "last" ? activeMovies[activeMovies.length - 1] : activeMovies[ORDINALS[word]];
+  }
+  return undefined;
+}
+
+function resolveRef(ref: TitleRef, activeMovies: MovieChunk[]): TitleRef {
+  const movie = referencedMovie(ref.title, activeMovies);
+  if (!movie) return ref;
+  const year = parseInt(movie.release_date?.slice(0, 4) ?? "", 10);
+  return { title: movie.title, year: Number.isNaN(year) ? undefined : year };
+}
+
+function withMovie(intent: QueryIntent, ref: TitleRef): QueryIntent {
+  switch (intent.kind) {
+    case "analysis":
+    case "where_to_watch":
+    case "credits":
+    case "runtime":
+      return { ...intent, movie: ref };
+    // "like it" named an earlier movie, so the sentence isn't a title.
+    case "similar":
+      return { ...intent, movie: ref, wholeTitle: ref === intent.movie ? intent.wholeTitle : undefined };
+    default:
+      return intent;
+  }
+}
+
+function resolveRefs(intent: QueryIntent, activeMovies: MovieChunk[]): QueryIntent {
+  if (intent.kind === "comparison") {
+    return { ...intent, movies: intent.movies.map(ref => resolveRef(ref, activeMovies)) };
+  }
+  if (intent.kind === "ranked_list") return intent;
+  return withMovie(intent, resolveRef(intent.movie, activeMovies));
+}
+
+function previousUserQuery(messages: ChatMessage[]): string | undefined {
+  const users = messages.filter(m => m.role === "user");
+  return users.length >= 2 ? users[users.length - 2].content : undefined;
+}
+
+// Parses the latest query, filling in movies the user refers to implicitly.
+export function resolveFollowUp(
+  query: string,
+  messages: ChatMessage[],
+  context: ConversationContext
+): QueryIntent {
+  const { activeMovies } = context;
+  const sentence = query.trim().replace(/[?!.]+$/, "");
+  const subject = activeMovies[0];
+
+  if (subject) {
+    const similar = sentence.match(ELLIPTICAL_SIMILAR_PATTERN);
+    if (similar) {
+      return resolveRefs(
+        { kind: "similar", movie: { title: "it" }, modifiers: similar[1], query },
+        activeMovies
+      );
+    }
+  }
+
+  const switched = sentence.match(ELLIPTICAL_SWITCH_PATTERN);
+  const previous = previousUserQuery(messages);
+  if (switched && previous) {
+    // Repeat the previous question with the new subject or constraint.
+    const previousIntent = resolveRefs(parseQueryIntent(previous), activeMovies);
+    if (previousIntent.kind === "ranked_list") {
+      return {
+        ...previousIntent,
+        filters: { ...previousIntent.filters, ...extractSearchFilters(switched[1]) },
+      };
+    }
+    if (previousIntent.kind !== "comparison") {
+      return { ...withMovie(previousIntent, resolveRef(parseTitleRef(switched[1]), activeMovies)), query };
+    }
+  }
+
+  return resolveRefs(parseQueryIntent(query), activeMovies);
+}
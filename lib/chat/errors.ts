@@ -0,0 +1,60 @@
+// === Chat Errors ===
+// Failures the API reports with a stable code, so clients can tell a
+// question nothing matched from a backend that is down.
+
+export type ChatErrorCode =
+  | "INVALID_REQUEST"
+  | "PAYLOAD_TOO_LARGE"
+  | "RATE_LIMITED"
+  | "NO_MATCH"
+  | "UPSTREAM_EMBEDDING_FAILED"
+  | "STORE_UNAVAILABLE"
+  | "INTERNAL_ERROR";
+
+export const ERROR_STATUS: Record<ChatErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  PAYLOAD_TOO_LARGE: 413,
+  RATE_LIMITED: 429,
+  NO_MATCH: 404,
+  UPSTREAM_EMBEDDING_FAILED: 502,
+  STORE_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500,
+};
+
+const INTERNAL_MESSAGE =
+  "Sorry, I'm having trouble accessing movie information right now. Please try again later.";
+
+export class ChatError extends Error {
+  constructor(
+    readonly code: ChatErrorCode,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "ChatError";
+  }
+}
+
+// Anything that isn't already a ChatError is reported as INTERNAL_ERROR,
+// without its message, which may name internals.
+export function toChatError(error: unknown): ChatError {
+  if (error instanceof ChatError) return error;
+  return new ChatError("INTERNAL_ERROR", INTERNAL_MESSAGE, { cause: error });
+}
+
+// The store failing is reported as such, not as a search with no results.
+export function storeUnavailable(cause: unknown): ChatError {
+  return new ChatError(
+    "STORE_UNAVAILABLE",
+    "The movie database is unavailable right now. Please try again later.",
+    { cause }
+  );
+}
+
+export function embeddingFailed(cause: unknown): ChatError {
+  return new ChatError(
+    "UPSTREAM_EMBEDDING_FAILED",
+    "The embedding service didn't respond. Please try again later.",
+    { cause }
+  );
+}
@@ -0,0 +1,36 @@
+import type { MovieChunk } from "../store";
+
+export function movieYear(movie: Pick<MovieChunk, "release_date">): string {
+  return movie.release_date?.split("-")[0] ?? "";
+}
+
+export function formatRuntime(minutes?: number): string | null {
+  if (!minutes) return null;
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+// A citation marker: the movie's number among the answer's sources.
+export function cite(marker: number): string {
+  return `[${marker}]`;
+}
+
+function citation(marker?: number): string {
+  return marker ? ` ${cite(marker)}` : "";
+}
+
+export function formatMovieLine(movie: MovieChunk, marker?: number): string {
+  const rating = movie.rating ? ` ⭐ ${movie.rating.toFixed(1)}` : "";
+  return `- **${movie.title}** (${movieYear(movie)})${rating}${citation(marker)}`;
+}
+
+export function formatMovieResponse(movie: MovieChunk, marker?: number): string {
+  const year = movie.release_date ? new Date(movie.release_date).getFullYear() : '';
+  const rating = movie.rating ? `⭐ ${movie.rating.toFixed(1)}/10` : '';
+  const streaming = movie.where_to_watch?.length
+    ? `\n📺 **Where to Watch**: ${movie.where_to_watch.join(', ')}`
+    : '';
+
+  return `🎬 **${movie.title}** (${year}) ${rating}${citation(marker)}\n` +
+    `${movie.overview || 'No overview available.'}${streaming}`;
+}
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { MovieChunk } from "../store";
+import { unsupportedClaims } from "./grounding";
+
+function movie(title: string, releaseDate: string): MovieChunk {
+  return {
+    _id: `${title}_0`,
+    text: title,
+    title,
+    release_date: releaseDate,
+    rating: 8,
+    where_to_watch: ["Netflix"],
+    source: "",
+    chunk_index: 0,
+  };
+}
+
+const claimed = (text: string, movies: MovieChunk[]) => unsupportedClaims(text, movies).map(claim => claim.text);
+
+test("a decade claim covers that decade only", () => {
+  const memento = [movie("Memento", "2000-10-11")];
+  const inception = [movie("Inception", "2010-07-15")];
+  assert.deepEqual(claimed("A standout of the 2000s.", memento), []);
+  assert.deepEqual(claimed("A standout of the 2000s.", inception), ["2000s"]);
+  assert.deepEqual(claimed("A standout of the 1990s.", memento), ["1990s"]);
+});
+
+test("a year claim must appear in the records", () => {
+  const memento = [movie("Memento", "2000-10-11")];
+  assert.deepEqual(claimed("Released in 2000.", memento), []);
+  assert.deepEqual(claimed("Released in 2001.", memento), ["2001"]);
+});
+
+test("a provider claim must be one of the movie's providers", () => {
+  const memento = [movie("Memento", "2000-10-11")];
+  assert.deepEqual(claimed("Streaming on Netflix.", memento), []);
+  assert.deepEqual(claimed("Streaming on Hulu.", memento), ["Hulu"]);
+});
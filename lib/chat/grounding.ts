@@ -0,0 +1,222 @@
+import type { MovieChunk } from "../store";
+import { collectText } from "./stream";
+
+// === Grounding ===
+// Generated analyses may only state facts found in the retrieved records.
+// After generation the text is scanned for checkable claims (years, people,
+// awards, runtimes, ratings, providers) and each is looked up in the records.
+// Unsupported claims either trigger one regeneration that is told to drop
+// them, or are listed in a visible "unverified" notice.
+
+export type ClaimKind = "year" | "name" | "award" | "runtime" | "rating" | "provider";
+
+export interface Claim {
+  kind: ClaimKind;
+  text: string;
+}
+
+// `annotate` streams the answer and appends a notice; `regenerate` waits for
+// the full draft so an unsupported one can be replaced before it is shown.
+export type GroundingMode = "annotate" | "regenerate" | "off";
+
+const GROUNDING_MODES: GroundingMode[] = ["annotate", "regenerate", "off"];
+
+const YEAR_PATTERN = /\b(1[89]\d{2}|20\d{2})(s?)\b/g;
+const MINUTES_PATTERN = /\b(\d{2,3})\s*(?:minutes|mins?)\b/gi;
+const HOURS_PATTERN = /\b(\d)\s*(?:h|hours?)\s*(?:and\s*)?(\d{1,2})\s*(?:m|mins?|minutes)\b/gi;
+const RATING_PATTERN = /\b(\d(?:\.\d)?)\s*\/\s*10\b/g;
+const AWARD_PATTERN =
+  /\b(oscars?|academy awards?|golden globes?|baftas?|emmys?|palme d'or|cannes|sundance|awards?|nominat\w*|accolades?)\b/i;
+const NEGATION_PATTERN = /\b(no|not|don't|doesn't|isn't|without|unknown|unclear)\b/i;
+// People are only picked out where the wording says a person follows; the
+// cue word may start a sentence but the name itself must be capitalized.
+const NAME_PATTERN =
+  /\b(?:[Dd]irected by|[Ss]tarring|[Ss]tars|[Ff]eaturing|[Aa]longside|[Oo]pposite|[Ww]ritten by|[Ss]cored by|[Pp]erformances? (?:by|from)|[Aa]ctor|[Aa]ctress|[Dd]irector)\s+((?:[A-Z][\p{L}'.-]+\s?){2,3})/gu;
+
+// Names as written in TMDB's provider list, matched case-sensitively
+const KNOWN_PROVIDERS = [
+  "Netflix",
+  "Hulu",
+  "Disney Plus",
+  "Disney+",
+  "Amazon Prime Video",
+  "Prime Video",
+  "HBO Max",
+  "Apple TV",
+  "Apple TV Plus",
+  "Paramount Plus",
+  "Paramount+",
+  "Peacock",
+  "Tubi",
+  "Pluto TV",
+  "Crunchyroll",
+  "Mubi",
+  "Criterion Channel",
+  "Kanopy",
+  "Starz",
+  "Showtime",
+  "Google Play Movies",
+  "YouTube",
+  "Amazon Video",
+];
+
+export function getGroundingMode(env: NodeJS.ProcessEnv = process.env): GroundingMode {
+  const mode = (env.GROUNDING_MODE || "annotate").toLowerCase() as GroundingMode;
+  if (!GROUNDING_MODES.includes(mode)) {
+    throw new Error(`Unknown GROUNDING_MODE "${mode}" (expected annotate, regenerate or off)`);
+  }
+  return mode;
+}
+
+// === Claim Extraction ===
+function sentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+|\n+/).filter(s => s.trim());
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function extractClaims(text: string): Claim[] {
+  const claims: Claim[] = [];
+
+  for (const [match] of text.matchAll(YEAR_PATTERN)) claims.push({ kind: "year", text: match });
+  for (const [match] of text.matchAll(MINUTES_PATTERN)) claims.push({ kind: "runtime", text: match });
+  for (const [match] of text.matchAll(HOURS_PATTERN)) claims.push({ kind: "runtime", text: match });
+  for (const [match] of text.matchAll(RATING_PATTERN)) claims.push({ kind: "rating", text: match });
+  for (const [, name] of text.matchAll(NAME_PATTERN)) {
+    claims.push({ kind: "name", text: name.trim().replace(/'s$/, "").replace(/[.'-]+$/, "") });
+  }
+
+  // Saying there is no award data is fine; claiming an award is not.
+  for (const sentence of sentences(text)) {
+    const award = sentence.match(AWARD_PATTERN);
+    if (award && !NEGATION_PATTERN.test(sentence)) claims.push({ kind: "award", text: award[0] });
+  }
+
+  for (const provider of KNOWN_PROVIDERS) {
+    if (new RegExp(`\\b${escapeRegExp(provider)}(?![\\w+])`).test(text)) {
+      claims.push({ kind: "provider", text: provider });
+    }
+  }
+  return claims;
+}
+
+// === Verification ===
+function movieEvidence(movie: MovieChunk): string {
+  return [
+    movie.title,
+    movie.text,
+    movie.overview,
+    movie.release_date,
+    movie.director,
+    ...(movie.cast ?? []),
+    ...(movie.genres ?? []),
+    ...(movie.keywords ?? []),
+  ]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+}
+
+function movieProviders(movie: MovieChunk): string[] {
+  const names = new Set(movie.where_to_watch ?? []);
+  for (const offers of Object.values(movie.availability ?? {})) {
+    for (const [type, providers] of Object.entries(offers)) {
+      if (type !== "link" && Array.isArray(providers)) providers.forEach(p => names.add(p));
+    }
+  }
+  return [...names].map(name => name.toLowerCase());
+}
+
+function claimedMinutes(text: string): number {
+  const hours = text.match(/(\d)\s*(?:h|hours?)\s*(?:and\s*)?(\d{1,2})/i);
+  return hours ? parseInt(hours[1], 10) * 60 + parseInt(hours[2], 10) : parseInt(text, 10);
+}
+
+function isSupported(claim: Claim, movies: MovieChunk[], evidence: string): boolean {
+  const text = claim.text.toLowerCase();
+  switch (claim.kind) {
+    case "year": {
+      const year = parseInt(claim.text, 10);
+      // "the 2000s" is a decade, like "the 1990s", not the whole century.
+      if (claim.text.endsWith("s")) {
+        return movies.some(m => {
+          const released = parseInt(m.release_date?.slice(0, 4) ?? "", 10);
+          return released >= year && released < year + 10;
+        });
+      }
+      return evidence.includes(String(year));
+    }
+    case "runtime": {
+      const minutes = claimedMinutes(claim.text);
+      return movies.some(m => m.runtime !== undefined && Math.abs(m.runtime - minutes) <= 1);
+    }
+    case "rating": {
+      const rating = parseFloat(claim.text);
+      return movies.some(m => m.rating !== undefined && Math.abs(m.rating - rating) < 0.1);
+    }
+    case "name":
+    case "award":
+      return evidence.includes(text);
+    case "provider":
+      return movies.some(m => movieProviders(m).some(p => p.includes(text) || text.includes(p)));
+  }
+}
+
+export function unsupportedClaims(text: string, movies: MovieChunk[]): Claim[] {
+  const evidence = movies.map(movieEvidence).join("\n");
+  const seen = new Set<string>();
+  return extractClaims(text).filter(claim => {
+    const key = `${claim.kind}:${claim.text.toLowerCase()}`;
+    if (seen.has(key) || isSupported(claim, movies, evidence)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function unverifiedNotice(claims: Claim[]): string {
+  const listed = claims.map(claim => `"${claim.text}"`).join(", ");
+  return `\n\n> ⚠️ **Unverified**: I couldn't confirm ${listed} against the movie data, so treat ${claims.length === 1 ? "it" : "them"} with caution.`;
+}
+
+// === Grounded Generation ===
+// `generate` is called with the claims a previous draft got wrong, if any.
+export type DraftGenerator = (avoid: Claim[]) => AsyncIterable<string>;
+
+export async function* groundedAnswer(
+  generate: DraftGenerator,
+  movies: MovieChunk[],
+  mode: GroundingMode = getGroundingMode()
+): AsyncIterable<string> {
+  if (mode === "off") {
+    yield* generate([]);
+    return;
+  }
+
+  if (mode === "annotate") {
+    let draft = "";
+    for await (const chunk of generate([])) {
+      draft += chunk;
+      yield chunk;
+    }
+    const unsupported = unsupportedClaims(draft, movies);
+    if (unsupported.length > 0) yield unverifiedNotice(unsupported);
+    return;
+  }
+
+  const draft = await collectText(generate([]));
+  const unsupported = unsupportedClaims(draft, movies);
+  if (unsupported.length === 0) {
+    yield draft;
+    return;
+  }
+
+  console.warn(`Regenerating answer without unsupported claims: ${unsupported.map(c => c.text).join(", ")}`);
+  const retry = await collectText(generate(unsupported));
+  // An empty retry falls back to the flagged draft rather than no answer.
+  const answer = retry.trim() ? retry : draft;
+  const remaining = unsupportedClaims(answer, movies);
+  yield answer;
+  if (remaining.length > 0) yield unverifiedNotice(remaining);
+}
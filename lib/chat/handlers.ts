@@ -0,0 +1,346 @@
+import type { MovieChunk, OfferType } from "../store";
+import { generateMovieAnalysis, generateMovieComparison, PROMPT_VERSION } from "./analysis";
+import { answerCacheKey, cachedAnswer, embedQuery, normalizeQuery } from "./cache";
+import { cite, formatMovieLine, formatMovieResponse, formatRuntime, movieYear } from "./format";
+import type { ConversationContext } from "./conversation";
+import { getGroundingMode, groundedAnswer } from "./grounding";
+import type { QueryIntent } from "./intent";
+import { personalRating, seenMargin, unseen } from "./preferences";
+import { DEFAULT_REGION, regionName } from "./region";
+import { withFallback, type AnswerText } from "./stream";
+import { movieId } from "../movies/ids";
+import { releaseYear } from "../movies/lookup";
+import { describeFilter, extractSearchFilters, type SearchFilters } from "../search/filters";
+import type { HybridMovie } from "../search/fusion";
+import { recommendSimilar, type RecommendedMovie } from "./recommend";
+import {
+  findExactMovie,
+  relaxFilters,
+  resolveMovie,
+  searchWithFilters,
+  type MovieResolution,
+} from "./retrieval";
+
+// `movies` are the answer's sources: the text cites movies[n - 1] as [n].
+export interface ChatAnswer {
+  text: AnswerText;
+  movies: MovieChunk[];
+  // Nothing in the store matched the question; `text` says so.
+  noMatch?: boolean;
+}
+
+type IntentOf<K extends QueryIntent["kind"]> = Extract<QueryIntent, { kind: K }>;
+
+const RANKED_LIST_CANDIDATES = 20;
+const RANKED_LIST_SIZE = 5;
+const SIMILAR_LIST_SIZE = 5;
+// How much shorter/longer a "but shorter" recommendation has to be, in minutes.
+const RELATIVE_RUNTIME_MARGIN = 10;
+
+const EMPTY_CONTEXT: ConversationContext = { activeMovies: [], history: "", region: DEFAULT_REGION };
+
+const OFFER_LABELS: [OfferType, string][] = [
+  ["flatrate", "Stream"],
+  ["free", "Free"],
+  ["ads", "Free with ads"],
+  ["rent", "Rent"],
+  ["buy", "Buy"],
+];
+
+function unresolvedAnswer(title: string, resolution: Exclude<MovieResolution, { status: "found" }>): ChatAnswer {
+  if (resolution.status === "not_found") {
+    return {
+      text: `I couldn't find information about "${title}". Could you check the title or ask about another movie?`,
+      movies: [],
+      noMatch: true,
+    };
+  }
+
+  const { candidates } = resolution;
+  if (candidates.length > 1) {
+    return {
+      text: `I found these similar movies:\n\n` +
+        candidates.map((m, i) => formatMovieResponse(m, i + 1)).join('\n\n---\n\n') +
+        `\n\nWas one of these the movie you meant?`,
+      movies: candidates,
+    };
+  }
+  // Soft match – don’t auto-answer
+  return {
+    text: `I found this movie which might be similar to "${title}":\n\n` +
+      formatMovieResponse(candidates[0], 1) +
+      `\n\nWas this the movie you meant? If not, please double-check the title.`,
+    movies: candidates,
+  };
+}
+
+// Generated answers are cached per resolved movies, intent, region and
+// conversation, with the chat model and prompt version in the key.
+function analysisCacheKey(intent: QueryIntent, movies: MovieChunk[], context: ConversationContext): string {
+  return answerCacheKey(
+    PROMPT_VERSION,
+    intent.kind,
+    movies.map(movieId),
+    context.region,
+    normalizeQuery(intent.query),
+    context.history,
+    getGroundingMode()
+  );
+}
+
+// === Per-intent handlers ===
+async function handleAnalysis(
+  intent: IntentOf<"analysis">,
+  context: ConversationContext,
+  signal?: AbortSignal
+): Promise<ChatAnswer> {
+  const resolution = await resolveMovie(intent.movie);
+  if (resolution.status !== "found") return unresolvedAnswer(intent.movie.title, resolution);
+
+  const { movie } = resolution;
+  const alternatives = unseen(resolution.alternatives, context.preferences);
+  const suggestions = alternatives.length > 0
+    ? `\n\n**You might also enjoy**:\n` +
+      alternatives
+        .slice(0, 2)
+        .map((m) => `- **${m.title}** (${movieYear(m)})`)
+        .join('\n')
+    : "";
+
+  const analysis = await cachedAnswer(
+    analysisCacheKey(intent, [movie], context),
+    [movieId(movie)],
+    () => groundedAnswer(avoid => generateMovieAnalysis(movie, intent.query, context.history, signal, avoid), [movie]),
+    signal
+  );
+  const text = withFallback(
+    analysis,
+    formatMovieResponse(movie, 1),
+    suggestions
+  );
+  return { text, movies: [movie] };
+}
+
+async function handleWhereToWatch(
+  intent: IntentOf<"where_to_watch">,
+  context: ConversationContext
+): Promise<ChatAnswer> {
+  const resolution = await resolveMovie(intent.movie);
+  if (resolution.status !== "found") return unresolvedAnswer(intent.movie.title, resolution);
+
+  const { movie } = resolution;
+  const heading = `**${movie.title}** (${movieYear(movie)})`;
+
+  // Movies ingested before per-region availability only know one region's streaming.
+  if (!movie.availability) {
+    const text = movie.where_to_watch?.length
+      ? `📺 ${heading} is streaming on: ${movie.where_to_watch.join(", ")} ${cite(1)}.`
+      : `📺 I don't know of any streaming service carrying ${heading} right now.`;
+    return { text, movies: [movie] };
+  }
+
+  const place = regionName(context.region);
+  const offers = movie.availability[context.region] ?? {};
+  const lines = OFFER_LABELS.flatMap(([type, label]) =>
+    offers[type]?.length ? [`- **${label}**: ${offers[type].join(", ")}`] : []
+  );
+  if (lines.length === 0) {
+    return { text: `📺 I don't know of any way to watch ${heading} in ${place} right now.`, movies: [movie] };
+  }
+
+  const link = offers.link ? `\n\nAll offers: ${offers.link}` : "";
+  return {
+    text: `📺 Where to watch ${heading} in ${place} ${cite(1)}:\n\n${lines.join("\n")}${link}`,
+    movies: [movie],
+  };
+}
+
+async function handleCredits(intent: IntentOf<"credits">): Promise<ChatAnswer> {
+  const resolution = await resolveMovie(intent.movie);
+  if (resolution.status !== "found") return unresolvedAnswer(intent.movie.title, resolution);
+
+  const { movie } = resolution;
+  const heading = `**${movie.title}** (${movieYear(movie)})`;
+  let text: string;
+  if (intent.role === "director") {
+    text = movie.director
+      ? `🎬 ${heading} was directed by ${movie.director} ${cite(1)}.`
+      : `🎬 I don't have director information for ${heading} yet.`;
+  } else {
+    text = movie.cast?.length
+      ? `🎭 ${heading} stars ${movie.cast.slice(0, 5).join(", ")} ${cite(1)}.`
+      : `🎭 I don't have cast information for ${heading} yet.`;
+  }
+  return { text, movies: [movie] };
+}
+
+async function handleRuntime(intent: IntentOf<"runtime">): Promise<ChatAnswer> {
+  const resolution = await resolveMovie(intent.movie);
+  if (resolution.status !== "found") return unresolvedAnswer(intent.movie.title, resolution);
+
+  const { movie } = resolution;
+  const heading = `**${movie.title}** (${movieYear(movie)})`;
+  const runtime = formatRuntime(movie.runtime);
+  const text = runtime
+    ? `⏱️ ${heading} runs ${runtime} (${movie.runtime} minutes) ${cite(1)}.`
+    : `⏱️ I don't have the runtime for ${heading} yet.`;
+  return { text, movies: [movie] };
+}
+
+// "but shorter", "but newer", "but on Netflix" relative to the seed movie.
+function modifierFilters(modifiers: string | undefined, seed: MovieChunk | null): SearchFilters {
+  if (!modifiers) return {};
+  const filters = extractSearchFilters(modifiers);
+  const lower = modifiers.toLowerCase();
+  const seedYear = seed ? releaseYear(seed) : undefined;
+
+  if (seed?.runtime && /\bshorter\b/.test(lower)) {
+    filters.runtime = { ...filters.runtime, max: seed.runtime - RELATIVE_RUNTIME_MARGIN };
+  }
+  if (seed?.runtime && /\blonger\b/.test(lower)) {
+    filters.runtime = { ...filters.runtime, min: seed.runtime + RELATIVE_RUNTIME_MARGIN };
+  }
+  if (seedYear && /\b(newer|more recent|recent)\b/.test(lower)) {
+    filters.years = { ...filters.years, from: seedYear + 1 };
+  }
+  if (seedYear && /\bolder\b/.test(lower)) {
+    filters.years = { ...filters.years, to: seedYear - 1 };
+  }
+  return filters;
+}
+
+async function handleSimilar(
+  intent: IntentOf<"similar">,
+  context: ConversationContext,
+  signal?: AbortSignal
+): Promise<ChatAnswer> {
+  // "Like Crazy" asks about that movie, not for movies like "Crazy".
+  if (intent.wholeTitle) {
+    const [match] = await findExactMovie(intent.wholeTitle);
+    if (match?.exact) return handleAnalysis({ kind: "analysis", movie: intent.wholeTitle, query: intent.query }, context, signal);
+  }
+
+  const limit = context.resultLimit ?? SIMILAR_LIST_SIZE;
+  const resolution = await resolveMovie(intent.movie);
+  const seed = resolution.status === "found" ? resolution.movie : null;
+  const filters = modifierFilters(intent.modifiers, seed);
+
+  // Without a known seed there is nothing to recommend from, only the words.
+  const { preferences } = context;
+  const { results, relaxed } = seed
+    ? await relaxFilters(filters, filter => recommendSimilar(seed, { limit, filter, preferences }), context.region)
+    : await searchWithFilters(
+      intent.query,
+      await embedQuery(intent.query),
+      filters,
+      limit + seenMargin(limit, preferences),
+      context.region
+    );
+  const similar = unseen<RecommendedMovie | HybridMovie>(results, preferences).slice(0, limit);
+
+  if (similar.length === 0) {
+    return { text: `I couldn't find movies similar to "${intent.movie.title}".`, movies: [], noMatch: true };
+  }
+
+  const relaxedNote = relaxed.length > 0
+    ? `I couldn't find any that were also ${relaxed.map(f => describeFilter(filters, f)).join(", ")}.\n\n`
+    : "";
+  const heading = seed
+    ? `If you liked **${seed.title}** (${movieYear(seed)}), try:`
+    : `Here are some movies similar to "${intent.movie.title}":`;
+  const lines = similar.map((m, i) => {
+    const reason = "$reason" in m ? ` — ${m.$reason}` : "";
+    return `${formatMovieLine(m, i + 1)}${reason}`;
+  });
+  return {
+    text: `${relaxedNote}${heading}\n\n${lines.join("\n")}`,
+    // Only the listed movies, so "the second one" refers to what the user sees.
+    movies: similar,
+  };
+}
+
+async function handleRankedList(intent: IntentOf<"ranked_list">, context: ConversationContext): Promise<ChatAnswer> {
+  const { results, relaxed } = await searchWithFilters(
+    intent.person ?? intent.query,
+    await embedQuery(intent.query),
+    intent.filters,
+    RANKED_LIST_CANDIDATES,
+    context.region
+  );
+  // "films with Florence Pugh" only lists movies that actually name her.
+  const credited = intent.person ? results.filter(m => m.$scores.lexical) : [];
+  const matches = credited.length > 0 ? credited : results;
+  // Movies the viewer has seen are left out, and liked genres rank higher.
+  const { preferences } = context;
+  const ranked = unseen(matches, preferences)
+    .sort((a, b) => personalRating(b, preferences) - personalRating(a, preferences))
+    .slice(0, context.resultLimit ?? RANKED_LIST_SIZE);
+
+  if (ranked.length === 0) {
+    const text = matches.length > 0
+      ? `You've already seen every movie I found for "${intent.query}".`
+      : `I couldn't find any movies matching "${intent.query}".`;
+    return { text, movies: [], noMatch: true };
+  }
+
+  const relaxedNote = relaxed.length > 0
+    ? `No movies matched every constraint, so I dropped: ${relaxed.map(f => describeFilter(intent.filters, f)).join(", ")}.\n\n`
+    : "";
+  return {
+    text: `${relaxedNote}Here are the top picks for "${intent.query}":\n\n${ranked.map((m, i) => formatMovieLine(m, i + 1)).join("\n")}`,
+    movies: ranked,
+  };
+}
+
+async function handleComparison(
+  intent: IntentOf<"comparison">,
+  context: ConversationContext,
+  signal?: AbortSignal
+): Promise<ChatAnswer> {
+  const resolutions = await Promise.all(intent.movies.map(ref => resolveMovie(ref)));
+  const missing = intent.movies.filter((_, i) => resolutions[i].status !== "found");
+  if (missing.length > 0) {
+    const titles = missing.map(m => `"${m.title}"`).join(" or ");
+    return { text: `I couldn't find ${titles}. Could you double-check the title?`, movies: [], noMatch: true };
+  }
+
+  const movies: MovieChunk[] = [];
+  for (const resolution of resolutions) {
+    if (resolution.status === "found") movies.push(resolution.movie);
+  }
+  const comparison = await cachedAnswer(
+    analysisCacheKey(intent, movies, context),
+    movies.map(movieId),
+    () => groundedAnswer(avoid => generateMovieComparison(movies, intent.query, context.history, signal, avoid), movies),
+    signal
+  );
+  const text = withFallback(
+    comparison,
+    movies.map((m, i) => formatMovieResponse(m, i + 1)).join("\n\n---\n\n")
+  );
+  return { text, movies };
+}
+
+// === Dispatch ===
+export async function handleIntent(
+  intent: QueryIntent,
+  context: ConversationContext = EMPTY_CONTEXT,
+  signal?: AbortSignal
+): Promise<ChatAnswer> {
+  switch (intent.kind) {
+    case "analysis":
+      return handleAnalysis(intent, context, signal);
+    case "where_to_watch":
+      return handleWhereToWatch(intent, context);
+    case "credits":
+      return handleCredits(intent);
+    case "runtime":
+      return handleRuntime(intent);
+    case "similar":
+      return handleSimilar(intent, context, signal);
+    case "ranked_list":
+      return handleRankedList(intent, context);
+    case "comparison":
+      return handleComparison(intent, context, signal);
+  }
+}
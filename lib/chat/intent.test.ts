@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseQueryIntent } from "./intent";
+
+test("a question starting with \"like\" keeps the whole sentence as a possible title", () => {
+  const intent = parseQueryIntent("Like Crazy");
+  assert.equal(intent.kind, "similar");
+  if (intent.kind !== "similar") return;
+  assert.deepEqual(intent.movie, { title: "Crazy" });
+  assert.deepEqual(intent.wholeTitle, { title: "Like Crazy" });
+});
+
+test("explicit similar-to questions aren't titles", () => {
+  for (const query of ["Similar movies to Inception", "What should I watch if I liked Heat?"]) {
+    const intent = parseQueryIntent(query);
+    assert.equal(intent.kind, "similar", query);
+    if (intent.kind === "similar") assert.equal(intent.wholeTitle, undefined, query);
+  }
+});
+
+test("underrated and hidden-gem questions are ranked lists", () => {
+  for (const query of ["Underrated comedy films from 2020s", "Hidden gem thrillers"]) {
+    assert.equal(parseQueryIntent(query).kind, "ranked_list", query);
+  }
+});
@@ -0,0 +1,129 @@
+// === Query Intents ===
+// Turns a free-text question into a typed intent with its entities, so the
+// route can answer "Where can I stream Oppenheimer?" without treating the
+// whole sentence as a movie title.
+
+import { extractGenres, extractSearchFilters, type SearchFilters } from "../search/filters";
+
+export interface TitleRef {
+  title: string;
+  year?: number;
+}
+
+export type CreditRole = "director" | "cast";
+
+export type QueryIntent =
+  | { kind: "analysis"; movie: TitleRef; query: string }
+  | { kind: "where_to_watch"; movie: TitleRef; query: string }
+  | { kind: "credits"; movie: TitleRef; role: CreditRole; query: string }
+  | { kind: "runtime"; movie: TitleRef; query: string }
+  // `wholeTitle` is set when the question may itself be a title ("Like Crazy")
+  | { kind: "similar"; movie: TitleRef; modifiers?: string; wholeTitle?: TitleRef; query: string }
+  | { kind: "ranked_list"; filters: SearchFilters; person?: string; query: string }
+  | { kind: "comparison"; movies: TitleRef[]; query: string };
+
+export type IntentKind = QueryIntent["kind"];
+
+// === Titles ===
+// "Heat (1995)" or "Heat from 1995" -> { title: "Heat", year: 1995 }. A bare
+// trailing year is left alone: it is part of "Blade Runner 2049".
+export function parseTitleRef(raw: string): TitleRef {
+  const cleaned = raw
+    .trim()
+    .replace(/^["'“‘]+|["'”’]+$/g, "")
+    .replace(/[?!.]+$/, "")
+    .trim();
+  const withYear = cleaned.match(/^(.+?)\s*(?:\((\d{4})\)|,?\s+(?:from|in|of)\s+((?:19|20)\d{2}))$/i);
+  if (withYear) {
+    return { title: withYear[1].trim(), year: parseInt(withYear[2] ?? withYear[3], 10) };
+  }
+  return { title: cleaned };
+}
+
+// Ordered: earlier patterns win. Each captures the title in group 1.
+// `mayBeTitle` marks patterns that match titles too, like "Something Like Summer".
+const TITLE_PATTERNS: {
+  kind: "where_to_watch" | "runtime" | "similar" | "analysis";
+  pattern: RegExp;
+  mayBeTitle?: boolean;
+}[] = [
+  { kind: "where_to_watch", pattern: /^where (?:can|could|do|should) i (?:stream|watch|see|find|rent|buy) (.+)$/i },
+  { kind: "where_to_watch", pattern: /^where (?:is|to) (?:stream|watch) (.+)$/i },
+  { kind: "where_to_watch", pattern: /^(?:is|can i (?:stream|watch)) (.+?) (?:streaming|available|on netflix|on hulu|on prime|on disney\+?|on max)\b.*$/i },
+  { kind: "runtime", pattern: /^how long is (.+)$/i },
+  { kind: "runtime", pattern: /^(?:what is |what's )?(?:the )?(?:runtime|run time|length|duration) (?:of|for) (.+)$/i },
+  { kind: "runtime", pattern: /^how many (?:minutes|hours) (?:is|does) (.+?)(?: run| last)?$/i },
+  { kind: "similar", pattern: /^similar (?:movies|films) to (.+)$/i },
+  { kind: "similar", pattern: /^(?:(?:\w+ )?(?:movies|films|something|anything) )?(?:similar to|like) (.+)$/i, mayBeTitle: true },
+  { kind: "similar", pattern: /^(?:what (?:should|can) i watch|recommend (?:me )?(?:something|movies|films)) (?:if i liked|after|like) (.+)$/i },
+  { kind: "analysis", pattern: /^is (.+?) (?:worth (?:watching|it|seeing)|any good|good)$/i },
+  { kind: "analysis", pattern: /^why is (.+?) (?:considered|called|regarded as) .+$/i },
+  { kind: "analysis", pattern: /^(?:what are (?:the )?)?(?:key |main )?themes (?:in|of) (.+)$/i },
+  { kind: "analysis", pattern: /^(?:tell me about|review of|review|analy[sz]e|what is|what's) (.+?)(?: about)?$/i },
+  { kind: "analysis", pattern: /^should i watch (.+)$/i },
+];
+
+const CREDIT_PATTERNS: { role: CreditRole; pattern: RegExp }[] = [
+  { role: "director", pattern: /^who (?:directed|made) (.+)$/i },
+  { role: "director", pattern: /^who (?:is|was) the director of (.+)$/i },
+  { role: "director", pattern: /^(?:the )?director of (.+)$/i },
+  { role: "cast", pattern: /^who (?:is|was|'s|stars|starred|acts|acted|plays|played) in (.+)$/i },
+  { role: "cast", pattern: /^who(?:'s| is) in (.+)$/i },
+  { role: "cast", pattern: /^(?:the )?(?:cast|actors|stars) (?:of|in) (.+)$/i },
+];
+
+const COMPARISON_PATTERNS: RegExp[] = [
+  /^compare (.+?) (?:and|with|to|vs\.?|versus) (.+)$/i,
+  /^(.+?) (?:vs\.?|versus) (.+)$/i,
+  /^(?:is )?(.+?) or (.+?)[,:]? which (?:is|one is) better$/i,
+  /^(?:is )?(.+?) better than (.+)$/i,
+];
+
+const RANKED_LIST_PATTERN = /\b(best|top|top-rated|greatest|highest[- ]rated|underrated|hidden gems?|good|great|must[- ]see|recommend)\b/i;
+// "films with Florence Pugh", "movies directed by Denis Villeneuve"
+const CREDIT_LIST_PATTERN = /\b(?:movies|films)\s+(?:with|starring|featuring|by|directed by)\s+(.+)$/i;
+const LIST_NOUN_PATTERN = /\b(movies|films|flicks|picks|comedies|dramas|thrillers|documentaries|westerns)\b/i;
+
+// === Parser ===
+export function parseQueryIntent(rawQuery: string): QueryIntent {
+  const query = rawQuery.trim();
+  const sentence = query.replace(/[?!.]+$/, "").trim();
+
+  for (const { role, pattern } of CREDIT_PATTERNS) {
+    const match = sentence.match(pattern);
+    if (match) return { kind: "credits", role, movie: parseTitleRef(match[1]), query };
+  }
+
+  for (const { kind, pattern, mayBeTitle } of TITLE_PATTERNS) {
+    const match = sentence.match(pattern);
+    if (!match) continue;
+    if (kind === "similar") {
+      // "like Heat but shorter" -> seed "Heat", modifiers "shorter"
+      const [, seed, modifiers] = match[1].match(/^(.+?)(?:,? but (.+))?$/i) ?? [];
+      const wholeTitle = mayBeTitle ? parseTitleRef(sentence) : undefined;
+      return { kind, movie: parseTitleRef(seed ?? match[1]), modifiers, wholeTitle, query };
+    }
+    return { kind, movie: parseTitleRef(match[1]), query };
+  }
+
+  const isList = LIST_NOUN_PATTERN.test(sentence) || extractGenres(sentence).length > 0;
+  const creditList = sentence.match(CREDIT_LIST_PATTERN);
+  if ((RANKED_LIST_PATTERN.test(sentence) && isList) || creditList) {
+    return {
+      kind: "ranked_list",
+      filters: extractSearchFilters(sentence),
+      person: creditList?.[1].trim(),
+      query,
+    };
+  }
+
+  for (const pattern of COMPARISON_PATTERNS) {
+    const match = sentence.match(pattern);
+    if (match) {
+      return { kind: "comparison", movies: [parseTitleRef(match[1]), parseTitleRef(match[2])], query };
+    }
+  }
+
+  // Anything else is treated as a movie title to analyze.
+  return { kind: "analysis", movie: parseTitleRef(sentence), query };
+}
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { clientAddress } from "./limits";
+
+const forwardedFor = (value: string) => new Headers({ "x-forwarded-for": value });
+
+test("the client address is the hop the trusted proxy added", () => {
+  assert.equal(clientAddress(forwardedFor("1.2.3.4, 10.0.0.1"), 1), "10.0.0.1");
+  assert.equal(clientAddress(forwardedFor("203.0.113.7"), 1), "203.0.113.7");
+});
+
+test("a spoofed leading X-Forwarded-For entry doesn't change the key", () => {
+  const honest = clientAddress(forwardedFor("203.0.113.7"), 1);
+  for (const spoofed of ["1.2.3.4", "5.6.7.8", "random-" + Math.random()]) {
+    assert.equal(clientAddress(forwardedFor(`${spoofed}, 203.0.113.7`), 1), honest);
+  }
+});
+
+test("with two trusted proxies the client is the hop before them", () => {
+  assert.equal(clientAddress(forwardedFor("9.9.9.9, 198.51.100.2, 10.0.0.1"), 2), "198.51.100.2");
+});
+
+test("X-Real-IP is used when there is no X-Forwarded-For", () => {
+  assert.equal(clientAddress(new Headers({ "x-real-ip": "198.51.100.9" }), 1), "198.51.100.9");
+  assert.equal(clientAddress(new Headers(), 1), "unknown");
+});
+
+test("without a trusted proxy forwarding headers are ignored", () => {
+  const headers = new Headers({ "x-forwarded-for": "203.0.113.7", "x-real-ip": "198.51.100.9" });
+  assert.equal(clientAddress(headers), "unknown");
+});
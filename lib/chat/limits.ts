@@ -0,0 +1,212 @@
+import type { ChatMessage } from "./conversation";
+
+// === Request Limits ===
+// Every chat request can cost an embedding, store queries and a model call,
+// so clients are throttled and oversized requests are turned away before
+// any of that work starts.
+
+export interface ChatLimits {
+  // Token bucket per client: `burst` requests at once, refilled at `perMinute`
+  perMinute: number;
+  burst: number;
+  maxBodyBytes: number;
+  maxMessages: number;
+  maxQueryChars: number;
+  // Earlier messages are echoed back by the client, so they can be longer
+  maxMessageChars: number;
+  // Proxies in front of the server that append to X-Forwarded-For; with none,
+  // forwarding headers are client-supplied and ignored
+  trustedProxies: number;
+}
+
+const DEFAULT_LIMITS: ChatLimits = {
+  perMinute: 20,
+  burst: 5,
+  maxBodyBytes: 64 * 1024,
+  maxMessages: 50,
+  maxQueryChars: 1000,
+  maxMessageChars: 8000,
+  trustedProxies: 0,
+};
+
+// Buckets of clients that have been idle long enough to be full again are
+// dropped once this many are tracked.
+const MAX_TRACKED_CLIENTS = 10000;
+
+function parseLimit(value: string | undefined, fallback: number, variable: string): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) throw new Error(`Invalid ${variable}: ${value}`);
+  return parsed;
+}
+
+function parseCount(value: string | undefined, fallback: number, variable: string): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`Invalid ${variable}: ${value}`);
+  return parsed;
+}
+
+export function getChatLimits(env: NodeJS.ProcessEnv = process.env): ChatLimits {
+  return {
+    perMinute: parseLimit(env.CHAT_RATE_LIMIT_PER_MINUTE, DEFAULT_LIMITS.perMinute, "CHAT_RATE_LIMIT_PER_MINUTE"),
+    burst: parseLimit(env.CHAT_RATE_LIMIT_BURST, DEFAULT_LIMITS.burst, "CHAT_RATE_LIMIT_BURST"),
+    maxBodyBytes: parseLimit(env.CHAT_MAX_BODY_BYTES, DEFAULT_LIMITS.maxBodyBytes, "CHAT_MAX_BODY_BYTES"),
+    maxMessages: parseLimit(env.CHAT_MAX_MESSAGES, DEFAULT_LIMITS.maxMessages, "CHAT_MAX_MESSAGES"),
+    maxQueryChars: parseLimit(env.CHAT_MAX_QUERY_CHARS, DEFAULT_LIMITS.maxQueryChars, "CHAT_MAX_QUERY_CHARS"),
+    maxMessageChars: DEFAULT_LIMITS.maxMessageChars,
+    trustedProxies: parseCount(env.CHAT_TRUSTED_PROXIES, DEFAULT_LIMITS.trustedProxies, "CHAT_TRUSTED_PROXIES"),
+  };
+}
+
+// === Rejections ===
+// What the route turns into an error response; `retryAfterSeconds` becomes
+// the Retry-After header.
+export interface LimitRejection {
+  status: "rejected";
+  httpStatus: 400 | 413 | 429;
+  message: string;
+  retryAfterSeconds?: number;
+}
+
+export type LimitCheck<T> = { status: "ok"; value: T } | LimitRejection;
+
+function reject(httpStatus: LimitRejection["httpStatus"], message: string, retryAfterSeconds?: number): LimitRejection {
+  return { status: "rejected", httpStatus, message, retryAfterSeconds };
+}
+
+// === Rate Limiting ===
+export interface RateLimiter {
+  take(client: string): LimitCheck<void>;
+}
+
+export function createRateLimiter({ perMinute, burst }: Pick<ChatLimits, "perMinute" | "burst">): RateLimiter {
+  const refillPerMs = perMinute / 60000;
+  const buckets = new Map<string, { tokens: number; refilledAt: number }>();
+
+  const forget = (now: number) => {
+    for (const [client, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.refilledAt) * refillPerMs >= burst) buckets.delete(client);
+    }
+  };
+
+  return {
+    take(client) {
+      const now = Date.now();
+      if (buckets.size >= MAX_TRACKED_CLIENTS) forget(now);
+
+      const bucket = buckets.get(client) ?? { tokens: burst, refilledAt: now };
+      bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.refilledAt) * refillPerMs);
+      bucket.refilledAt = now;
+      buckets.set(client, bucket);
+
+      if (bucket.tokens < 1) {
+        const retryAfterSeconds = Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+        return reject(429, "Too many requests. Please wait a moment and try again.", retryAfterSeconds);
+      }
+      bucket.tokens -= 1;
+      return { status: "ok", value: undefined };
+    },
+  };
+}
+
+// Shared by every chat route. Buckets live in this server process, so each
+// instance limits on its own.
+let rateLimiter: RateLimiter | null = null;
+
+export function getRateLimiter(limits: ChatLimits = getChatLimits()): RateLimiter {
+  if (!rateLimiter) rateLimiter = createRateLimiter(limits);
+  return rateLimiter;
+}
+
+// === List Limits ===
+// Changing a watchlist or seen-list is a small file write, so the list
+// routes have their own, looser bucket and never use up the chat quota.
+// Reading the lists isn't limited.
+export type ListLimits = Pick<ChatLimits, "perMinute" | "burst">;
+
+const DEFAULT_LIST_LIMITS: ListLimits = { perMinute: 120, burst: 30 };
+
+export function getListLimits(env: NodeJS.ProcessEnv = process.env): ListLimits {
+  return {
+    perMinute: parseLimit(env.LIST_RATE_LIMIT_PER_MINUTE, DEFAULT_LIST_LIMITS.perMinute, "LIST_RATE_LIMIT_PER_MINUTE"),
+    burst: parseLimit(env.LIST_RATE_LIMIT_BURST, DEFAULT_LIST_LIMITS.burst, "LIST_RATE_LIMIT_BURST"),
+  };
+}
+
+let listRateLimiter: RateLimiter | null = null;
+
+export function getListRateLimiter(limits: ListLimits = getListLimits()): RateLimiter {
+  if (!listRateLimiter) listRateLimiter = createRateLimiter(limits);
+  return listRateLimiter;
+}
+
+// The address the nearest trusted proxy saw. Each proxy appends the address
+// it received the request from, so entries before the trusted hops are
+// whatever the client sent and can't key the limiter. Without the header,
+// the platform's X-Real-IP is used. Without a trusted proxy both headers come
+// from the client, so every client shares one bucket.
+export function clientAddress(headers: Headers, trustedProxies = DEFAULT_LIMITS.trustedProxies): string {
+  if (trustedProxies === 0) return "unknown";
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  if (hops.length > 0) return hops[Math.max(0, hops.length - trustedProxies)];
+  return headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+// === Payload ===
+// Reads at most `maxBytes`, or null once the body goes past them; a body
+// without Content-Length can't make the server buffer more than that.
+async function readCapped(body: ReadableStream<Uint8Array>, maxBytes: number): Promise<Uint8Array | null> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// Content-Length is checked first so an honest oversized upload isn't read at all.
+export async function readJsonBody(req: Request, maxBytes: number): Promise<LimitCheck<unknown>> {
+  const tooLarge = reject(413, `Request body is larger than ${Math.floor(maxBytes / 1024)} KB.`);
+  if (Number(req.headers.get("content-length")) > maxBytes) return tooLarge;
+
+  const bytes = req.body ? await readCapped(req.body, maxBytes) : new Uint8Array();
+  if (!bytes) return tooLarge;
+  try {
+    return { status: "ok", value: JSON.parse(new TextDecoder().decode(bytes)) };
+  } catch {
+    return reject(400, "Request body must be JSON.");
+  }
+}
+
+// The last message is the query; the rest is history the client echoes back.
+export function checkMessages(messages: ChatMessage[], limits: ChatLimits): LimitCheck<ChatMessage[]> {
+  if (messages.length > limits.maxMessages) {
+    return reject(413, `Too many messages (${messages.length}); send at most the last ${limits.maxMessages}.`);
+  }
+  const query = messages[messages.length - 1];
+  if (query && query.content.length > limits.maxQueryChars) {
+    return reject(413, `Questions are limited to ${limits.maxQueryChars} characters.`);
+  }
+  if (messages.some(m => m.content.length > limits.maxMessageChars)) {
+    return reject(413, `Messages are limited to ${limits.maxMessageChars} characters.`);
+  }
+  return { status: "ok", value: messages };
+}
@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseInline } from "./markdown";
+
+test("web and mailto links become links", () => {
+  for (const href of ["https://www.themoviedb.org/movie/496243", "http://example.com", "mailto:hi@example.com"]) {
+    assert.deepEqual(parseInline(`[Parasite](${href})`), [
+      { kind: "link", href, children: [{ kind: "text", text: "Parasite" }] },
+    ]);
+  }
+});
+
+test("links with any other scheme stay as text", () => {
+  for (const href of ["javascript:void0", "JavaScript:void0", "data:text/html;base64,PHNjcmlwdD4", "vbscript:x", "/relative"]) {
+    const text = `[Parasite](${href})`;
+    assert.deepEqual(parseInline(text), [{ kind: "text", text }]);
+  }
+});
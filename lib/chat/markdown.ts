@@ -0,0 +1,113 @@
+// === Markdown ===
+// Parses the subset of markdown the answers use into a tree the UI renders
+// as elements. There's no HTML step, so model output can't inject markup,
+// and links are kept only when they point to the web.
+
+export type MarkdownInline =
+  | { kind: "text"; text: string }
+  | { kind: "strong"; children: MarkdownInline[] }
+  | { kind: "emphasis"; children: MarkdownInline[] }
+  | { kind: "code"; text: string }
+  | { kind: "link"; href: string; children: MarkdownInline[] }
+  | { kind: "citation"; marker: number }
+  | { kind: "break" };
+
+export type MarkdownBlock =
+  | { kind: "heading"; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { kind: "paragraph"; children: MarkdownInline[] }
+  | { kind: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { kind: "quote"; children: MarkdownBlock[] }
+  | { kind: "rule" };
+
+// === Inline ===
+// In order of precedence: code spans, links, citation markers like [1],
+// bold, then italics. Underscores only count at word boundaries, so
+// snake_case words stay as they are.
+const INLINE_PATTERN =
+  /`([^`\n]+)`|\[([^\]\n]+)\]\(([^)\s]+)\)|\[(\d+)\]|\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)([^*\n]+?)\*|(?<!\w)_(?!\s)([^_\n]+?)_(?!\w)/g;
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+function parseLine(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index > last) nodes.push({ kind: "text", text: text.slice(last, match.index) });
+    last = match.index + match[0].length;
+
+    const [raw, code, label, href, marker, strong, strongAlt, emphasis, emphasisAlt] = match;
+    if (code !== undefined) nodes.push({ kind: "code", text: code });
+    else if (label !== undefined) {
+      nodes.push(SAFE_LINK.test(href) ? { kind: "link", href, children: parseLine(label) } : { kind: "text", text: raw });
+    } else if (marker !== undefined) nodes.push({ kind: "citation", marker: Number(marker) });
+    else if ((strong ?? strongAlt) !== undefined) nodes.push({ kind: "strong", children: parseLine(strong ?? strongAlt) });
+    else nodes.push({ kind: "emphasis", children: parseLine(emphasis ?? emphasisAlt) });
+  }
+  if (last < text.length) nodes.push({ kind: "text", text: text.slice(last) });
+  return nodes;
+}
+
+// Lines of one paragraph or list item stay on separate lines.
+export function parseInline(text: string): MarkdownInline[] {
+  return text
+    .split("\n")
+    .flatMap((line, i) => [...(i > 0 ? [{ kind: "break" } as const] : []), ...parseLine(line.trim())]);
+}
+
+// === Blocks ===
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: "paragraph", children: parseInline(paragraph.join("\n")) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const heading = line.match(HEADING);
+    const item = line.match(BULLET) ?? line.match(NUMBERED);
+
+    if (!line.trim()) {
+      flush();
+    } else if (RULE.test(line)) {
+      flush();
+      blocks.push({ kind: "rule" });
+    } else if (heading) {
+      flush();
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ kind: "heading", level, children: parseInline(heading[2]) });
+    } else if (QUOTE.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(lines[i].match(QUOTE)[1]);
+      i--;
+      blocks.push({ kind: "quote", children: parseMarkdown(quoted.join("\n")) });
+    } else if (item) {
+      flush();
+      const ordered = NUMBERED.test(line);
+      const items: string[] = [];
+      // Indented lines after an item continue it
+      for (; i < lines.length; i++) {
+        const next = ordered ? lines[i].match(NUMBERED) : lines[i].match(BULLET);
+        if (next) items.push(next[1]);
+        else if (items.length > 0 && /^\s+\S/.test(lines[i])) items[items.length - 1] += `\n${lines[i]}`;
+        else break;
+      }
+      i--;
+      blocks.push({ kind: "list", ordered, items: items.map(parseInline) });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
@@ -0,0 +1,69 @@
+import { getMovieListStore, type MovieLists } from "../lists";
+import { movieId } from "../movies/ids";
+import type { MovieChunk } from "../store";
+
+// === Viewer Preferences ===
+// What the viewer's lists mean for recommendations and ranked lists: movies
+// they have seen are left out, and genres of the ones they liked rank higher.
+// Plain arrays and records, so preferences can be part of a cache key.
+
+export interface ViewerPreferences {
+  // Sorted TMDB ids
+  seenIds: string[];
+  // Lowercase genre → share of liked movies in it, 0..1
+  likedGenres: Record<string, number>;
+}
+
+export const NO_PREFERENCES: ViewerPreferences = { seenIds: [], likedGenres: {} };
+
+// How many rating points a movie entirely in the viewer's favourite genres
+// gains when a ranked list is sorted by rating.
+const LIKED_GENRE_RATING_BOOST = 1;
+
+export function preferencesFromLists(lists: MovieLists): ViewerPreferences {
+  const liked = lists.seen.filter(entry => entry.liked);
+  const counts: Record<string, number> = {};
+  for (const entry of liked) {
+    for (const genre of new Set(entry.genres.map(g => g.toLowerCase()))) counts[genre] = (counts[genre] ?? 0) + 1;
+  }
+
+  const likedGenres: Record<string, number> = {};
+  for (const genre of Object.keys(counts).sort()) likedGenres[genre] = counts[genre] / liked.length;
+  return { seenIds: lists.seen.map(entry => entry.tmdbId).sort(), likedGenres };
+}
+
+// The lists only refine answers; without a viewer, or when the lists can't be
+// read, answers just aren't personal.
+export async function loadPreferences(viewer?: string): Promise<ViewerPreferences> {
+  if (!viewer) return NO_PREFERENCES;
+  try {
+    return preferencesFromLists(await getMovieListStore().getLists(viewer));
+  } catch (error) {
+    console.warn("⚠️ Failed to load movie lists:", error);
+    return NO_PREFERENCES;
+  }
+}
+
+export function hasPreferences(preferences: ViewerPreferences = NO_PREFERENCES): boolean {
+  return preferences.seenIds.length > 0 || Object.keys(preferences.likedGenres).length > 0;
+}
+
+export function unseen<T extends MovieChunk>(movies: T[], preferences: ViewerPreferences = NO_PREFERENCES): T[] {
+  if (preferences.seenIds.length === 0) return movies;
+  const seen = new Set(preferences.seenIds);
+  return movies.filter(movie => !seen.has(movieId(movie)));
+}
+
+// Extra results to fetch so a list is still full once seen movies are dropped.
+export function seenMargin(limit: number, preferences: ViewerPreferences = NO_PREFERENCES): number {
+  return Math.min(preferences.seenIds.length, limit);
+}
+
+// 0..1: the largest share of liked movies that one of this movie's genres has.
+export function genreAffinity(movie: MovieChunk, preferences: ViewerPreferences = NO_PREFERENCES): number {
+  return Math.max(0, ...(movie.genres ?? []).map(genre => preferences.likedGenres[genre.toLowerCase()] ?? 0));
+}
+
+export function personalRating(movie: MovieChunk, preferences: ViewerPreferences = NO_PREFERENCES): number {
+  return (movie.rating ?? 0) + LIKED_GENRE_RATING_BOOST * genreAffinity(movie, preferences);
+}
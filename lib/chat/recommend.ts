@@ -0,0 +1,212 @@
+import { embedText } from "../ai";
+import { movieId } from "../movies/ids";
+import { cosineSimilarity, getMovieStore, type MovieChunk, type MovieFilter, type ScoredMovieChunk } from "../store";
+import { cachedRetrieval } from "./cache";
+import { embeddingFailed, storeUnavailable } from "./errors";
+import { genreAffinity, hasPreferences, NO_PREFERENCES, seenMargin, unseen, type ViewerPreferences } from "./preferences";
+import { findLexicalMatches, findSimilarMovies } from "./retrieval";
+
+// === Similar-movie Recommendations ===
+// A seed movie is represented by the centroid of its chunk vectors, so the
+// whole film counts rather than the wording of the question. Candidates come
+// from vector search on that centroid and from BM25 on the seed's director,
+// genres and keywords, are scored on centroid similarity plus genre and
+// keyword overlap, and are picked with maximal marginal relevance so the list
+// doesn't fill up with near-duplicates. Movies the viewer has seen are left
+// out, and genres they liked add to the score.
+
+export type RecommendedMovie = ScoredMovieChunk & {
+  // One line on why the movie was picked
+  $reason: string;
+};
+
+export interface RecommendOptions {
+  limit?: number;
+  filter?: MovieFilter;
+  preferences?: ViewerPreferences;
+}
+
+// Candidates gathered from each source per requested recommendation
+const CANDIDATES_PER_RESULT = 4;
+const WEIGHTS = { vector: 0.6, genres: 0.25, keywords: 0.15 };
+// Added on top, so liked genres break ties more than they override the seed
+const LIKED_GENRE_WEIGHT = 0.1;
+// 1 ranks purely on relevance; lower values trade relevance for variety.
+const MMR_LAMBDA = 0.7;
+const LOOKUP_BATCH_SIZE = 100; // Data API limit on $in values
+
+interface Candidate {
+  movie: MovieChunk;
+  centroid?: number[];
+  vectorSimilarity: number;
+  relevance: number;
+}
+
+function centroid(vectors: number[][]): number[] | undefined {
+  if (vectors.length === 0) return undefined;
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) vector.forEach((value, i) => (sum[i] += value));
+  return sum.map(value => value / vectors.length);
+}
+
+// Movie-level vectors keyed by movie id, from every stored chunk of each movie.
+async function movieCentroids(movies: MovieChunk[]): Promise<Map<string, number[]>> {
+  const sources = [...new Set(movies.map(m => m.source))];
+  const chunks: MovieChunk[] = [];
+  try {
+    for (let i = 0; i < sources.length; i += LOOKUP_BATCH_SIZE) {
+      const slice = sources.slice(i, i + LOOKUP_BATCH_SIZE);
+      chunks.push(...(await getMovieStore().query({ source: { $in: slice } }, { includeVector: true })));
+    }
+  } catch (error) {
+    throw storeUnavailable(error);
+  }
+  const vectors = new Map<string, number[][]>();
+  for (const chunk of chunks) {
+    if (!chunk.$vector) continue;
+    const id = movieId(chunk);
+    vectors.set(id, [...(vectors.get(id) ?? []), chunk.$vector]);
+  }
+
+  const centroids = new Map<string, number[]>();
+  for (const [id, movieVectors] of vectors) {
+    const vector = centroid(movieVectors);
+    if (vector) centroids.set(id, vector);
+  }
+  return centroids;
+}
+
+// Same 0..1 scale as the stores' $similarity.
+function similarity(a: number[], b: number[]): number {
+  return (1 + cosineSimilarity(a, b)) / 2;
+}
+
+function lower(values: string[] = []): string[] {
+  return values.map(value => value.toLowerCase());
+}
+
+function shared(a: string[] = [], b: string[] = []): string[] {
+  const other = new Set(lower(b));
+  return a.filter(value => other.has(value.toLowerCase()));
+}
+
+function jaccard(a: string[] = [], b: string[] = []): number {
+  const union = new Set([...lower(a), ...lower(b)]);
+  return union.size === 0 ? 0 : shared(a, b).length / union.size;
+}
+
+function people(credit?: string): string[] {
+  return credit ? credit.split(",").map(name => name.trim()) : [];
+}
+
+export function explainRecommendation(seed: MovieChunk, movie: MovieChunk): string {
+  const reasons: string[] = [];
+  const directors = shared(people(movie.director), people(seed.director));
+  if (directors.length > 0) reasons.push(`also directed by ${directors.join(" and ")}`);
+  const cast = shared(movie.cast, seed.cast).slice(0, 2);
+  if (cast.length > 0) reasons.push(`also stars ${cast.join(" and ")}`);
+  const keywords = shared(movie.keywords, seed.keywords).slice(0, 2);
+  if (keywords.length > 0) reasons.push(`shares its themes of ${keywords.join(" and ")}`);
+  const genres = shared(movie.genres, seed.genres).slice(0, 2);
+  if (genres.length > 0) reasons.push(`another ${genres.join(" / ").toLowerCase()} film`);
+
+  const reason = reasons.length > 0 ? reasons.slice(0, 2).join(", ") : "close to it in story and tone";
+  return reason.charAt(0).toUpperCase() + reason.slice(1);
+}
+
+// Greedy MMR: each pick maximises relevance minus similarity to the picks so far.
+function selectDiverse(candidates: Candidate[], limit: number): Candidate[] {
+  const remaining = [...candidates];
+  const selected: Candidate[] = [];
+
+  const overlap = (a: Candidate, b: Candidate) =>
+    a.centroid && b.centroid
+      ? similarity(a.centroid, b.centroid)
+      : jaccard(a.movie.genres, b.movie.genres);
+
+  while (selected.length < limit && remaining.length > 0) {
+    let best = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const redundancy = Math.max(0, ...selected.map(picked => overlap(candidate, picked)));
+      const score = MMR_LAMBDA * candidate.relevance - (1 - MMR_LAMBDA) * redundancy;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    selected.push(...remaining.splice(best, 1));
+  }
+  return selected;
+}
+
+export async function recommendSimilar(
+  seed: MovieChunk,
+  { limit = 5, filter, preferences = NO_PREFERENCES }: RecommendOptions = {}
+): Promise<RecommendedMovie[]> {
+  const seedId = movieId(seed);
+  return cachedRetrieval(
+    ["similar", seedId, limit, filter ?? null, hasPreferences(preferences) ? preferences : null],
+    () => rankRecommendations(seed, limit, filter, preferences),
+    // The seed is tagged too: refreshing it changes its centroid.
+    movies => (movies.length > 0 ? [seedId, ...movies.map(movieId)] : [])
+  );
+}
+
+// Only for a seed whose chunks have no stored vectors.
+async function embedSeed(seed: MovieChunk): Promise<number[]> {
+  try {
+    return await embedText(seed.text);
+  } catch (error) {
+    throw embeddingFailed(error);
+  }
+}
+
+async function rankRecommendations(
+  seed: MovieChunk,
+  limit: number,
+  filter: MovieFilter | undefined,
+  preferences: ViewerPreferences
+): Promise<RecommendedMovie[]> {
+  const seedId = movieId(seed);
+  const seedVector = (await movieCentroids([seed])).get(seedId) ?? (await embedSeed(seed));
+  const lexicalQuery = [seed.director, ...(seed.genres ?? []), ...(seed.keywords ?? [])].filter(Boolean).join(" ");
+
+  // Room for the seed itself and for movies the viewer has seen
+  const wanted = limit * CANDIDATES_PER_RESULT;
+  const pool = wanted + 1 + seenMargin(wanted, preferences);
+  const [vectorHits, lexicalHits] = await Promise.all([
+    findSimilarMovies(seedVector, pool, filter),
+    lexicalQuery ? findLexicalMatches(lexicalQuery, pool, filter) : Promise.resolve([]),
+  ]);
+
+  const movies = new Map<string, MovieChunk>();
+  for (const movie of unseen([...vectorHits, ...lexicalHits.map(hit => hit.movie)], preferences)) {
+    const id = movieId(movie);
+    if (id !== seedId && !movies.has(id)) movies.set(id, movie);
+  }
+  if (movies.size === 0) return [];
+
+  const centroids = await movieCentroids([...movies.values()]);
+  const candidates: Candidate[] = [...movies.entries()].map(([id, movie]) => {
+    const vector = centroids.get(id);
+    const vectorSimilarity = vector ? similarity(seedVector, vector) : 0;
+    return {
+      movie,
+      centroid: vector,
+      vectorSimilarity,
+      relevance:
+        WEIGHTS.vector * vectorSimilarity +
+        WEIGHTS.genres * jaccard(seed.genres, movie.genres) +
+        WEIGHTS.keywords * jaccard(seed.keywords, movie.keywords) +
+        LIKED_GENRE_WEIGHT * genreAffinity(movie, preferences),
+    };
+  });
+  candidates.sort((a, b) => b.relevance - a.relevance);
+
+  return selectDiverse(candidates, limit).map(({ movie, vectorSimilarity }) => ({
+    ...movie,
+    $similarity: vectorSimilarity,
+    $reason: explainRecommendation(seed, movie),
+  }));
+}
@@ -0,0 +1,46 @@
+// === Viewer Region ===
+// Availability answers are per country. The request may name one; otherwise
+// it is read from Accept-Language ("en-GB,en;q=0.9" -> "GB").
+
+export const DEFAULT_REGION = "US";
+
+const REGION_PATTERN = /^[A-Z]{2}$/;
+
+function normalizeRegion(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const region = value.trim().toUpperCase();
+  // "UK" is common but TMDB uses the ISO code.
+  if (region === "UK") return "GB";
+  return REGION_PATTERN.test(region) ? region : undefined;
+}
+
+export function regionFromAcceptLanguage(header: string | null | undefined): string | undefined {
+  if (!header) return undefined;
+  const languages = header
+    .split(",")
+    .map(part => {
+      const [tag, ...params] = part.trim().split(";");
+      const quality = params.find(p => p.trim().startsWith("q="));
+      return { tag, q: quality ? parseFloat(quality.trim().slice(2)) : 1 };
+    })
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of languages) {
+    const subtag = tag.split("-").slice(1).find(part => part.length === 2);
+    const region = normalizeRegion(subtag);
+    if (region) return region;
+  }
+  return undefined;
+}
+
+export function resolveRegion(requested: unknown, acceptLanguage?: string | null): string {
+  return normalizeRegion(requested) ?? regionFromAcceptLanguage(acceptLanguage) ?? DEFAULT_REGION;
+}
+
+export function regionName(region: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "region" }).of(region) ?? region;
+  } catch {
+    return region;
+  }
+}
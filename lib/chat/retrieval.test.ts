@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { matchesFilter, type MovieFilter } from "../store";
+import { relaxFilters } from "./retrieval";
+
+const movies = [
+  { title: "Heat", genres: ["Action", "Crime"], release_year: 1995, rating: 7.9, runtime: 170, where_to_watch: ["Netflix"] },
+  { title: "Speed", genres: ["Action"], release_year: 1994, rating: 7.1, runtime: 116, where_to_watch: ["Hulu"] },
+];
+
+// Returns the titles that match, recording each filter it was given.
+function fakeSearch() {
+  const filters: (MovieFilter | undefined)[] = [];
+  const search = async (filter: MovieFilter | undefined) => {
+    filters.push(filter);
+    return movies.filter(m => matchesFilter(m, filter)).map(m => m.title);
+  };
+  return { filters, search };
+}
+
+test("filters that match are kept", async () => {
+  const { search } = fakeSearch();
+  const result = await relaxFilters({ genres: ["Action"], years: { from: 1990, to: 1999 } }, search);
+  assert.deepEqual(result.results, ["Heat", "Speed"]);
+  assert.deepEqual(result.relaxed, []);
+});
+
+test("a single constraint is dropped when that is enough", async () => {
+  const { search } = fakeSearch();
+  // Only the provider rules Heat out; runtime is tried first and doesn't help.
+  const result = await relaxFilters({ genres: ["Crime"], runtime: { min: 150 }, provider: "Hulu" }, search);
+  assert.deepEqual(result.results, ["Heat"]);
+  assert.deepEqual(result.relaxed, ["provider"]);
+  assert.deepEqual(result.filters, { genres: ["Crime"], runtime: { min: 150 } });
+});
+
+test("constraints are dropped in order until something matches", async () => {
+  const { search } = fakeSearch();
+  const result = await relaxFilters({ genres: ["Crime"], minRating: 9, runtime: { max: 90 } }, search);
+  assert.deepEqual(result.results, ["Heat"]);
+  assert.deepEqual(result.relaxed, ["runtime", "minRating"]);
+});
+
+test("without filters the search runs unfiltered", async () => {
+  const { filters, search } = fakeSearch();
+  const result = await relaxFilters({}, search);
+  assert.deepEqual(result.results, ["Heat", "Speed"]);
+  assert.deepEqual(filters, [undefined]);
+});
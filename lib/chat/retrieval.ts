@@ -0,0 +1,202 @@
+import { movieId } from "../movies/ids";
+import { groupChunksByMovie, toMovieRecord, type GroupedMovie } from "../movies/grouping";
+import { getMoviesByIds, resolveTitle, TITLE_MATCH_THRESHOLD, type TitleMatch } from "../movies/lookup";
+import { scoreTitleMatch } from "../movies/titles";
+import {
+  hasFilters,
+  RELAXATION_ORDER,
+  toStoreFilter,
+  withoutFilter,
+  type FilterField,
+  type SearchFilters,
+} from "../search/filters";
+import { fuseRankings, type HybridMovie } from "../search/fusion";
+import { getLexicalIndex, type LexicalHit } from "../search/lexical";
+import { getMovieStore, matchesFilter, type MovieChunk, type MovieFilter, type ScoredMovieChunk } from "../store";
+import { cachedRetrieval, embedQuery, normalizeQuery } from "./cache";
+import { storeUnavailable } from "./errors";
+import type { TitleRef } from "./intent";
+
+// Vector matches at or above this are confident enough to answer about.
+const STRONG_SIMILARITY = 0.75;
+// Below this, vector matches are only offered as "did you mean" suggestions.
+const WEAK_SIMILARITY = 0.7;
+// A movie is split into a handful of chunks; fetch enough to fill `limit` movies.
+const CHUNKS_PER_MOVIE = 4;
+// Each source contributes this many candidates per requested result to fusion.
+const FUSION_CANDIDATES_PER_RESULT = 3;
+
+export type MovieResolution =
+  | { status: "found"; movie: MovieChunk; alternatives: ScoredMovieChunk[] }
+  | { status: "uncertain"; candidates: MovieChunk[] }
+  | { status: "not_found" };
+
+export async function findExactMovie(ref: TitleRef): Promise<TitleMatch[]> {
+  try {
+    return await resolveTitle(getMovieStore(), ref.title, ref.year);
+  } catch (error) {
+    console.error("Exact search error:", error);
+    throw storeUnavailable(error);
+  }
+}
+
+// Vector search returning `limit` distinct movies. Chunks are grouped by
+// movie and each group is replaced by its parent document.
+export async function findSimilarMovies(
+  embedding: number[],
+  limit = 5,
+  filter?: MovieFilter
+): Promise<GroupedMovie[]> {
+  try {
+    const store = getMovieStore();
+    const chunks = await store.vectorSearch(embedding, { limit: limit * CHUNKS_PER_MOVIE, filter });
+    const groups = groupChunksByMovie(chunks).slice(0, limit);
+
+    const parents = new Map<string, MovieChunk>();
+    for (const parent of await getMoviesByIds(store, groups.map(movieId))) {
+      parents.set(movieId(parent), parent);
+    }
+    return groups.map(group => {
+      const { $similarity, $chunkIds } = group;
+      const record = parents.get(movieId(group)) ?? toMovieRecord(group);
+      return { ...record, $similarity, $chunkIds };
+    });
+  } catch (error) {
+    console.error("Vector search error:", error);
+    throw storeUnavailable(error);
+  }
+}
+
+export async function findLexicalMatches(
+  query: string,
+  limit = 5,
+  filter?: MovieFilter
+): Promise<LexicalHit[]> {
+  try {
+    const index = await getLexicalIndex();
+    // With a filter, rank everything first so filtered-out hits don't use up the limit.
+    if (!filter) return index.search(query, limit);
+    return index
+      .search(query, index.size)
+      .filter(hit => matchesFilter(hit.movie, filter))
+      .slice(0, limit);
+  } catch (error) {
+    console.error("Lexical search error:", error);
+    throw storeUnavailable(error);
+  }
+}
+
+// Vector and BM25 results merged by reciprocal rank fusion, one entry per
+// movie. Each result carries its per-source ranks and scores in `$scores`.
+export async function hybridSearch(
+  query: string,
+  embedding: number[],
+  limit = 5,
+  filter?: MovieFilter
+): Promise<HybridMovie[]> {
+  return cachedRetrieval(
+    ["hybrid", normalizeQuery(query), embedding, limit, filter ?? null],
+    async () => {
+      const candidates = limit * FUSION_CANDIDATES_PER_RESULT;
+      const [vector, lexical] = await Promise.all([
+        findSimilarMovies(embedding, candidates, filter),
+        findLexicalMatches(query, candidates, filter),
+      ]);
+      return fuseRankings(vector, lexical).slice(0, limit);
+    },
+    results => results.map(movieId)
+  );
+}
+
+export interface FilteredSearchResult<T = HybridMovie> {
+  results: T[];
+  filters: SearchFilters;
+  relaxed: FilterField[];
+}
+
+// Runs `search` under structured filters. When nothing matches, a single
+// constraint is dropped if that is enough (tried in RELAXATION_ORDER);
+// otherwise the first one is dropped for good and the search repeats.
+// Dropped constraints are reported so the answer can say so. `region` picks
+// whose providers a provider filter matches.
+export async function relaxFilters<T>(
+  filters: SearchFilters,
+  search: (filter: MovieFilter | undefined) => Promise<T[]>,
+  region?: string
+): Promise<FilteredSearchResult<T>> {
+  const run = (f: SearchFilters) => search(hasFilters(f) ? toStoreFilter(f, region) : undefined);
+
+  let current = filters;
+  const relaxed: FilterField[] = [];
+
+  for (;;) {
+    const results = await run(current);
+    const remaining = RELAXATION_ORDER.filter(field => current[field] !== undefined);
+    if (results.length > 0 || remaining.length === 0) {
+      return { results, filters: current, relaxed };
+    }
+
+    for (const field of remaining) {
+      const candidate = withoutFilter(current, field);
+      const relaxedResults = await run(candidate);
+      if (relaxedResults.length > 0) {
+        return { results: relaxedResults, filters: candidate, relaxed: [...relaxed, field] };
+      }
+    }
+
+    relaxed.push(remaining[0]);
+    current = withoutFilter(current, remaining[0]);
+  }
+}
+
+// Hybrid search constrained by structured filters, relaxed as needed.
+export async function searchWithFilters(
+  query: string,
+  embedding: number[],
+  filters: SearchFilters,
+  limit = 5,
+  region?: string
+): Promise<FilteredSearchResult> {
+  return relaxFilters(filters, filter => hybridSearch(query, embedding, limit, filter), region);
+}
+
+function resolutionMovieIds(resolution: MovieResolution): string[] {
+  switch (resolution.status) {
+    case "found":
+      return [resolution.movie, ...resolution.alternatives].map(movieId);
+    case "uncertain":
+      return resolution.candidates.map(movieId);
+    case "not_found":
+      return [];
+  }
+}
+
+// Title resolution first; hybrid search on the title as a fallback.
+export async function resolveMovie(ref: TitleRef): Promise<MovieResolution> {
+  return cachedRetrieval(
+    ["resolve", normalizeQuery(ref.title), ref.year ?? null],
+    () => resolveUncached(ref),
+    resolutionMovieIds
+  );
+}
+
+async function resolveUncached(ref: TitleRef): Promise<MovieResolution> {
+  const [bestMatch] = await findExactMovie(ref);
+  if (bestMatch && bestMatch.score >= TITLE_MATCH_THRESHOLD) {
+    return { status: "found", movie: bestMatch.movie, alternatives: [] };
+  }
+
+  const similar = await hybridSearch(ref.title, await embedQuery(ref.title));
+  if (similar.length === 0) return { status: "not_found" };
+
+  const [mainMovie, ...alternatives] = similar;
+  const isStrongMatch =
+    mainMovie.$similarity >= STRONG_SIMILARITY ||
+    scoreTitleMatch(ref.title, mainMovie.title) >= TITLE_MATCH_THRESHOLD;
+
+  if (isStrongMatch) return { status: "found", movie: mainMovie, alternatives };
+  return {
+    status: "uncertain",
+    candidates: mainMovie.$similarity < WEAK_SIMILARITY ? similar : [mainMovie],
+  };
+}
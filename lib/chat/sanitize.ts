@@ -0,0 +1,28 @@
+// === User Text ===
+// Everything the client sends is user-controlled, assistant turns included,
+// since the client echoes them back. Text is cleaned before it is parsed or
+// put into a prompt, and prompts wrap it in delimiters the text can't close.
+
+// Control characters other than tab and newline, zero-width characters and
+// bidirectional overrides, which can hide text from a reader but not a model.
+const INVISIBLE_PATTERN = /[\u0000-\u0008\u000B-\u001F\u007F-\u009F\u200B-\u200F\u202A-\u202E\u2060-\u2069\uFEFF]/g;
+
+// Tags used to delimit user text in prompts; the query itself is JSON-quoted.
+export type DelimiterTag = "conversation";
+
+const DELIMITER_PATTERN = /<\s*\/?\s*conversation\s*>/gi;
+
+export function sanitizeUserText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/\r\n?/g, "\n")
+    .replace(INVISIBLE_PATTERN, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// User text between <tag> lines, with any delimiter tags inside it removed so
+// it can't end the block early and continue as instructions.
+export function delimited(tag: DelimiterTag, text: string): string {
+  return `<${tag}>\n${text.replace(DELIMITER_PATTERN, "")}\n</${tag}>`;
+}
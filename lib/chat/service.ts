@@ -0,0 +1,45 @@
+import { cacheHeaders, traceCache } from "./cache";
+import { loadConversationContext, resolveFollowUp, type ChatMessage } from "./conversation";
+import { ChatError } from "./errors";
+import { handleIntent, type ChatAnswer } from "./handlers";
+import type { QueryIntent } from "./intent";
+import { loadPreferences } from "./preferences";
+import { sanitizeUserText } from "./sanitize";
+
+// === Chat Service ===
+// The steps every chat route runs once its request is validated: clean the
+// user text, load the conversation and the viewer's lists, resolve the
+// question and answer it.
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  activeMovieIds: string[];
+  region: string;
+  resultLimit?: number;
+  // Whose watchlist and seen-list shape the answer, if anyone's
+  viewerId?: string;
+}
+
+export interface ChatResult {
+  answer: ChatAnswer;
+  intent: QueryIntent;
+  // Cache hits for the response headers
+  headers: Record<string, string>;
+}
+
+export async function answerChat(request: ChatRequest, signal?: AbortSignal): Promise<ChatResult> {
+  const history = request.messages.map(m => ({ role: m.role, content: sanitizeUserText(m.content) }));
+  const query = history[history.length - 1]?.content;
+  if (!query) throw new ChatError("INVALID_REQUEST", "No movie query provided.");
+
+  const { result, trace } = await traceCache(async () => {
+    const context = {
+      ...(await loadConversationContext(history, request.activeMovieIds, request.region)),
+      resultLimit: request.resultLimit,
+      preferences: await loadPreferences(request.viewerId),
+    };
+    const intent = resolveFollowUp(query, history, context);
+    return { answer: await handleIntent(intent, context, signal), intent };
+  });
+  return { ...result, headers: cacheHeaders(trace) };
+}
@@ -0,0 +1,160 @@
+import { movieId } from "../movies/ids";
+import type { RetrievalScores } from "../search/fusion";
+import type { MovieChunk } from "../store";
+import { citedMarkers, toCitations, withValidMarkers, type CitedMovie, type Citation } from "./citations";
+import { toChatError } from "./errors";
+import { movieYear } from "./format";
+
+// === Answer Text ===
+// Handlers return either a finished string or the chat model's token stream.
+export type AnswerText = string | AsyncIterable<string>;
+
+export async function* textChunks(text: AnswerText): AsyncIterable<string> {
+  if (typeof text === "string") {
+    yield text;
+    return;
+  }
+  yield* text;
+}
+
+export async function collectText(text: AnswerText): Promise<string> {
+  if (typeof text === "string") return text;
+  let result = "";
+  for await (const chunk of text) result += chunk;
+  return result;
+}
+
+// Passes a model stream through, substituting `fallback` if the model
+// produced nothing and appending `suffix` once it is done.
+export async function* withFallback(
+  stream: AsyncIterable<string>,
+  fallback: string,
+  suffix = ""
+): AsyncIterable<string> {
+  let emitted = false;
+  for await (const chunk of stream) {
+    if (chunk.trim()) emitted = true;
+    yield chunk;
+  }
+  if (!emitted) yield fallback;
+  if (suffix) yield suffix;
+}
+
+// === Movie Cards ===
+// The subset of a movie the client renders before the answer text arrives.
+export interface MovieCard {
+  // The answer's citation marker for this movie, e.g. 1 for [1]
+  marker: number;
+  id: string;
+  title: string;
+  year: string;
+  rating?: number;
+  runtime?: number;
+  genres?: string[];
+  where_to_watch: string[];
+  source: string;
+  // Present when the movie came from hybrid search; for debugging ranking.
+  scores?: RetrievalScores;
+}
+
+export function toMovieCard(movie: MovieChunk & { $scores?: RetrievalScores }, marker: number): MovieCard {
+  return {
+    marker,
+    id: movieId(movie),
+    title: movie.title,
+    year: movieYear(movie),
+    rating: movie.rating,
+    runtime: movie.runtime,
+    genres: movie.genres,
+    where_to_watch: movie.where_to_watch ?? [],
+    source: movie.source,
+    scores: movie.$scores,
+  };
+}
+
+// === Response Streams ===
+const encoder = new TextEncoder();
+
+function sseEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+async function* withSuffix(text: AnswerText, suffix: string): AsyncIterable<string> {
+  yield* textChunks(text);
+  if (suffix) yield suffix;
+}
+
+// Raw text, for clients that don't ask for server-sent events or JSON.
+// `footer` is sent once the answer is done.
+export function toTextStream(text: AnswerText, footer = ""): ReadableStream<Uint8Array> {
+  const iterator = withSuffix(text, footer)[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value));
+      } catch (error) {
+        console.error("Error while streaming answer:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+// Server-sent events: `movies` (cards, sent first), `token` (text deltas),
+// then `done` with the active movie ids, or `error` with a code and message.
+export function toEventStream(text: AnswerText, movies: MovieChunk[]): ReadableStream<Uint8Array> {
+  const iterator = textChunks(text)[Symbol.asyncIterator]();
+  let sentMovies = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!sentMovies) {
+        sentMovies = true;
+        controller.enqueue(sseEvent("movies", { movies: movies.map((m, i) => toMovieCard(m, i + 1)) }));
+        return;
+      }
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.enqueue(sseEvent("done", { activeMovieIds: movies.map(movieId) }));
+          controller.close();
+        } else {
+          controller.enqueue(sseEvent("token", { text: value }));
+        }
+      } catch (error) {
+        console.error("Error while streaming answer:", error);
+        const { code, message } = toChatError(error);
+        controller.enqueue(sseEvent("error", { code, message }));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+// === JSON Response ===
+// The whole answer at once: markdown with [n] citation markers, and the
+// sources those markers refer to.
+export interface AnswerPayload {
+  answer: string;
+  sources: (Citation & { cited: boolean })[];
+  activeMovieIds: string[];
+}
+
+export async function toAnswerPayload(text: AnswerText, movies: CitedMovie[]): Promise<AnswerPayload> {
+  const citations = toCitations(movies);
+  const answer = withValidMarkers(await collectText(text), citations.length);
+  const cited = new Set(citedMarkers(answer));
+  return {
+    answer,
+    sources: citations.map(citation => ({ ...citation, cited: cited.has(citation.marker) })),
+    activeMovieIds: movies.map(movieId),
+  };
+}
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+import { createFileMovieListStore } from "./file";
+import type { MovieListEntry } from "./types";
+
+const dir = mkdtempSync(join(tmpdir(), "lists-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const entry = (tmdbId: string): MovieListEntry => ({
+  tmdbId,
+  title: `Movie ${tmdbId}`,
+  year: "2000",
+  genres: ["Drama"],
+  addedAt: "2026-01-01T00:00:00.000Z",
+});
+
+test("changes made at the same time are all kept", async () => {
+  const store = createFileMovieListStore(join(dir, "lists.json"));
+  const ids = ["1", "2", "3", "4", "5"];
+  await Promise.all([
+    ...ids.map(id => store.add("viewer-a", "watchlist", entry(id))),
+    store.add("viewer-b", "seen", entry("6")),
+  ]);
+
+  assert.deepEqual((await store.getLists("viewer-a")).watchlist.map(e => e.tmdbId).sort(), ids);
+  assert.deepEqual((await store.getLists("viewer-b")).seen.map(e => e.tmdbId), ["6"]);
+});
+
+test("a viewer is only written once their lists change", async () => {
+  const path = join(dir, "viewers.json");
+  const store = createFileMovieListStore(path, { maxViewers: 1 });
+  assert.deepEqual(await store.getLists("viewer-a"), { watchlist: [], seen: [] });
+  assert.equal(await store.remove("viewer-a", "seen", "1"), false);
+
+  await store.add("viewer-a", "seen", entry("1"));
+  await store.add("viewer-b", "seen", entry("2"));
+  assert.deepEqual((await store.getLists("viewer-a")).seen, []);
+  assert.deepEqual((await store.getLists("viewer-b")).seen.map(e => e.tmdbId), ["2"]);
+});
@@ -0,0 +1,78 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import {
+  DEFAULT_VIEWER_LIMITS,
+  updateViewer,
+  viewerLists,
+  withEntry,
+  type StoredViewers,
+  type ViewerLimits,
+} from "./memory";
+import type { MovieLists, MovieListStore } from "./types";
+
+// Every viewer's lists in one JSON file, keyed by viewer id. Changes are
+// applied one at a time, each reading the file just before it writes, so
+// two requests changing lists at once can't drop either update. Server
+// processes don't coordinate, so several of them shouldn't share one file.
+
+export function createFileMovieListStore(path: string, limits: Partial<ViewerLimits> = {}): MovieListStore {
+  const viewerLimits = { ...DEFAULT_VIEWER_LIMITS, ...limits };
+
+  const read = async (): Promise<StoredViewers> => {
+    try {
+      return new Map(Object.entries(JSON.parse(await readFile(path, "utf-8"))));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return new Map();
+      throw error;
+    }
+  };
+
+  // Through a temp file and rename, so a reader never sees half a file.
+  const write = async (viewers: StoredViewers) => {
+    await mkdir(dirname(path), { recursive: true });
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(Object.fromEntries(viewers), null, 2));
+    await rename(tmpPath, path);
+  };
+
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialized = <T>(change: () => Promise<T>): Promise<T> => {
+    const run = queue.then(change);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const update = (viewer: string, change: (lists: MovieLists) => boolean) =>
+    serialized(async () => {
+      const viewers = await read();
+      const lists = viewerLists(viewers, viewer);
+      if (!change(lists)) return false;
+      updateViewer(viewers, viewer, lists, viewerLimits);
+      await write(viewers);
+      return true;
+    });
+
+  return {
+    kind: "file",
+
+    async getLists(viewer) {
+      return viewerLists(await read(), viewer);
+    },
+
+    async add(viewer, list, entry) {
+      await update(viewer, lists => {
+        lists[list] = withEntry(lists[list], entry);
+        return true;
+      });
+    },
+
+    async remove(viewer, list, tmdbId) {
+      return update(viewer, lists => {
+        const kept = lists[list].filter(e => e.tmdbId !== tmdbId);
+        if (kept.length === lists[list].length) return false;
+        lists[list] = kept;
+        return true;
+      });
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { getMoviesByIds, releaseYear } from "../movies/lookup";
+import { getMovieStore } from "../store";
+import { createFileMovieListStore } from "./file";
+import { createMemoryMovieListStore } from "./memory";
+import type { MovieListEntry, MovieListName, MovieListStore, MovieListStoreKind } from "./types";
+
+export * from "./types";
+export { emptyLists } from "./memory";
+
+// MOVIE_LISTS=memory keeps the lists in the server process only.
+const DEFAULT_LISTS_PATH = ".data/movie-lists.json";
+
+export function getMovieListStoreKind(): MovieListStoreKind {
+  const kind = (process.env.MOVIE_LISTS || "file").toLowerCase();
+  if (kind !== "file" && kind !== "memory") {
+    throw new Error(`Unknown MOVIE_LISTS "${kind}" (expected "file" or "memory")`);
+  }
+  return kind;
+}
+
+let listStore: MovieListStore | null = null;
+
+export function getMovieListStore(): MovieListStore {
+  if (!listStore) {
+    listStore = getMovieListStoreKind() === "memory"
+      ? createMemoryMovieListStore()
+      : createFileMovieListStore(process.env.MOVIE_LISTS_PATH || DEFAULT_LISTS_PATH);
+  }
+  return listStore;
+}
+
+// === List Operations ===
+// The entry for a stored movie, or null when the store doesn't have it.
+export async function createListEntry(
+  list: MovieListName,
+  tmdbId: string,
+  { liked }: { liked?: boolean } = {}
+): Promise<MovieListEntry | null> {
+  const [movie] = await getMoviesByIds(getMovieStore(), [tmdbId]);
+  if (!movie) return null;
+  return {
+    tmdbId,
+    title: movie.title,
+    year: String(releaseYear(movie) ?? ""),
+    genres: movie.genres ?? [],
+    ...(list === "seen" ? { liked: liked ?? false } : {}),
+    addedAt: new Date().toISOString(),
+  };
+}
+
+// Marking a movie as seen takes it off the watchlist.
+export async function addToList(viewer: string, list: MovieListName, entry: MovieListEntry): Promise<void> {
+  const store = getMovieListStore();
+  await store.add(viewer, list, entry);
+  if (list === "seen") await store.remove(viewer, "watchlist", entry.tmdbId);
+}
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createMemoryMovieListStore, DEFAULT_VIEWER_LIMITS, emptyLists, updateViewer } from "./memory";
+import type { MovieListEntry } from "./types";
+
+const entry = (tmdbId: string): MovieListEntry => ({
+  tmdbId,
+  title: `Movie ${tmdbId}`,
+  year: "2000",
+  genres: ["Drama"],
+  addedAt: "2026-01-01T00:00:00.000Z",
+});
+
+test("each viewer has their own lists", async () => {
+  const store = createMemoryMovieListStore();
+  await store.add("viewer-a", "seen", entry("1"));
+  await store.add("viewer-b", "watchlist", entry("2"));
+
+  assert.deepEqual((await store.getLists("viewer-a")).seen.map((e) => e.tmdbId), ["1"]);
+  assert.deepEqual((await store.getLists("viewer-a")).watchlist, []);
+  assert.deepEqual((await store.getLists("viewer-b")).seen, []);
+  assert.equal(await store.remove("viewer-b", "seen", "1"), false);
+  assert.deepEqual(await store.getLists("viewer-c"), { watchlist: [], seen: [] });
+});
+
+test("viewers with empty lists aren't kept", async () => {
+  const viewers = new Map();
+  updateViewer(viewers, "viewer-a", { watchlist: [entry("1")], seen: [] }, DEFAULT_VIEWER_LIMITS);
+  updateViewer(viewers, "viewer-a", emptyLists(), DEFAULT_VIEWER_LIMITS);
+  assert.equal(viewers.size, 0);
+});
+
+test("the least recently active viewers go first past the cap, and idle ones expire", async () => {
+  const limits = { maxViewers: 2, maxIdleMs: 1000 };
+  const viewers = new Map();
+  const lists = { watchlist: [entry("1")], seen: [] };
+  updateViewer(viewers, "viewer-a", lists, limits, 0);
+  updateViewer(viewers, "viewer-b", lists, limits, 10);
+  updateViewer(viewers, "viewer-a", lists, limits, 20);
+  updateViewer(viewers, "viewer-c", lists, limits, 30);
+  assert.deepEqual([...viewers.keys()], ["viewer-a", "viewer-c"]);
+
+  updateViewer(viewers, "viewer-d", lists, limits, 1025);
+  assert.deepEqual([...viewers.keys()], ["viewer-c", "viewer-d"]);
+});
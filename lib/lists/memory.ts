@@ -0,0 +1,83 @@
+import type { MovieListEntry, MovieLists, MovieListStore } from "./types";
+
+// Lists that live as long as the process, for tests and evaluation runs that
+// shouldn't read or change the viewers' real lists.
+
+export function emptyLists(): MovieLists {
+  return { watchlist: [], seen: [] };
+}
+
+// Newest first, one entry per movie.
+export function withEntry(entries: MovieListEntry[], entry: MovieListEntry): MovieListEntry[] {
+  return [entry, ...entries.filter(e => e.tmdbId !== entry.tmdbId)];
+}
+
+// === Viewers ===
+// Viewers are anonymous cookie ids, so a store forgets viewers whose lists
+// are empty or who have been idle for `maxIdleMs`, and keeps at most
+// `maxViewers`, dropping the least recently active first. Viewers are kept
+// in the order they last changed their lists.
+export interface StoredViewer {
+  lists: MovieLists;
+  updatedAt: number;
+}
+
+export type StoredViewers = Map<string, StoredViewer>;
+
+export interface ViewerLimits {
+  maxViewers: number;
+  maxIdleMs: number;
+}
+
+export const DEFAULT_VIEWER_LIMITS: ViewerLimits = {
+  maxViewers: 10000,
+  maxIdleMs: 180 * 24 * 60 * 60 * 1000,
+};
+
+export function viewerLists(viewers: StoredViewers, viewer: string): MovieLists {
+  return structuredClone(viewers.get(viewer)?.lists ?? emptyLists());
+}
+
+export function updateViewer(
+  viewers: StoredViewers,
+  viewer: string,
+  lists: MovieLists,
+  { maxViewers, maxIdleMs }: ViewerLimits,
+  now = Date.now()
+): void {
+  viewers.delete(viewer);
+  if (lists.watchlist.length + lists.seen.length > 0) viewers.set(viewer, { lists, updatedAt: now });
+  for (const [id, { updatedAt }] of viewers) {
+    if (viewers.size <= maxViewers && now - updatedAt < maxIdleMs) break;
+    viewers.delete(id);
+  }
+}
+
+// === Store ===
+export function createMemoryMovieListStore(limits: Partial<ViewerLimits> = {}): MovieListStore {
+  const viewerLimits = { ...DEFAULT_VIEWER_LIMITS, ...limits };
+  const viewers: StoredViewers = new Map();
+
+  return {
+    kind: "memory",
+
+    async getLists(viewer) {
+      return viewerLists(viewers, viewer);
+    },
+
+    async add(viewer, list, entry) {
+      const lists = viewerLists(viewers, viewer);
+      lists[list] = withEntry(lists[list], { ...entry });
+      updateViewer(viewers, viewer, lists, viewerLimits);
+    },
+
+    async remove(viewer, list, tmdbId) {
+      const lists = viewerLists(viewers, viewer);
+      const kept = lists[list].filter(e => e.tmdbId !== tmdbId);
+      if (kept.length === lists[list].length) return false;
+      lists[list] = kept;
+      updateViewer(viewers, viewer, lists, viewerLimits);
+      return true;
+    },
+  };
+}
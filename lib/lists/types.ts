@@ -0,0 +1,33 @@
+// === Movie Lists ===
+// Each viewer's watchlist and the movies they have seen. Entries keep the
+// title, year and genres from when they were added, so recommendations can
+// use them without looking each movie up again.
+
+export type MovieListName = "watchlist" | "seen";
+
+export const MOVIE_LIST_NAMES: MovieListName[] = ["watchlist", "seen"];
+
+export interface MovieListEntry {
+  tmdbId: string;
+  title: string;
+  year: string;
+  genres: string[];
+  // Seen-list only; genres of liked movies are boosted in recommendations
+  liked?: boolean;
+  addedAt: string;
+}
+
+export type MovieLists = Record<MovieListName, MovieListEntry[]>;
+
+// === Storage ===
+// Lists are kept per viewer id; a viewer without any has two empty lists.
+export interface MovieListStore {
+  readonly kind: MovieListStoreKind;
+  getLists(viewer: string): Promise<MovieLists>;
+  // Replaces the movie's entry if it is already on the list
+  add(viewer: string, list: MovieListName, entry: MovieListEntry): Promise<void>;
+  // False when the movie wasn't on the list
+  remove(viewer: string, list: MovieListName, tmdbId: string): Promise<boolean>;
+}
+
+export type MovieListStoreKind = "file" | "memory";
@@ -0,0 +1,37 @@
+import type { MovieChunk, ScoredMovieChunk } from "../store";
+import { movieId } from "./ids";
+
+// === Movie-level Results ===
+// Vector search ranks chunks; answers are about movies. Chunks are collapsed
+// by movie and the parent document stands in for the whole film.
+
+// `$chunkIds` lists the movie's matching chunks, best first.
+export type GroupedMovie = ScoredMovieChunk & { $chunkIds: string[] };
+
+// The parent document's unsplit text replaces the chunk text. Documents
+// ingested before parents existed keep their own chunk text.
+export function toMovieRecord<T extends MovieChunk>(chunk: T): T {
+  const record = { ...chunk, text: chunk.full_text ?? chunk.text };
+  delete record.full_text;
+  return record;
+}
+
+// One entry per movie, scored by its best chunk; movies matching on more
+// chunks win ties. Input order doesn't matter.
+export function groupChunksByMovie(chunks: ScoredMovieChunk[]): GroupedMovie[] {
+  const groups = new Map<string, GroupedMovie>();
+  for (const chunk of chunks) {
+    const id = movieId(chunk);
+    const current = groups.get(id);
+    if (!current) {
+      groups.set(id, { ...chunk, $chunkIds: [chunk._id] });
+    } else if (chunk.$similarity > current.$similarity) {
+      groups.set(id, { ...chunk, $chunkIds: [chunk._id, ...current.$chunkIds] });
+    } else {
+      current.$chunkIds.push(chunk._id);
+    }
+  }
+  return [...groups.values()].sort(
+    (a, b) => b.$similarity - a.$similarity || b.$chunkIds.length - a.$chunkIds.length
+  );
+}
@@ -0,0 +1,19 @@
+import type { MovieChunk } from "../store";
+
+// Movies are identified by their TMDB id, which every chunk carries in its
+// `source` URL. Documents without one fall back to title + release date.
+
+const TMDB_MOVIE_URL = "https://www.themoviedb.org/movie/";
+
+export function tmdbSourceUrl(tmdbId: number | string): string {
+  return `${TMDB_MOVIE_URL}${tmdbId}`;
+}
+
+export function tmdbIdFromSource(source?: string): string | undefined {
+  const match = source?.match(/themoviedb\.org\/movie\/(\d+)/);
+  return match?.[1];
+}
+
+export function movieId(movie: Pick<MovieChunk, "source" | "title" | "release_date">): string {
+  return tmdbIdFromSource(movie.source) ?? `${movie.title}_${movie.release_date}`;
+}
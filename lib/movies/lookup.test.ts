@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+import { createLocalMovieStore } from "../store/local";
+import type { MovieChunk } from "../store";
+import { resolveTitle } from "./lookup";
+import { tmdbSourceUrl } from "./ids";
+import { normalizeTitle, titleSearchTerms } from "./titles";
+
+const dir = mkdtempSync(join(tmpdir(), "lookup-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function chunks(tmdbId: number, title: string, count: number): MovieChunk[] {
+  return Array.from({ length: count }, (_, i) => ({
+    _id: `${tmdbId}_${i}`,
+    text: title,
+    title,
+    release_date: "2003-11-14",
+    rating: 7,
+    where_to_watch: [],
+    source: tmdbSourceUrl(tmdbId),
+    chunk_index: i,
+    title_key: normalizeTitle(title),
+    title_terms: titleSearchTerms(title),
+  }));
+}
+
+test("an exact title is found when prefix matches fill the candidate cap", async () => {
+  const store = createLocalMovieStore(join(dir, "store.json"));
+  // 60 movies with two chunks each share the "lov*" prefix term and are stored first.
+  for (let i = 1; i <= 60; i++) await store.upsertChunks(chunks(i, `Lovely Story ${i}`, 2));
+  await store.upsertChunks(chunks(508, "Love Actually", 2));
+
+  const [best] = await resolveTitle(store, "Love Actually");
+  assert.equal(best?.movie.title, "Love Actually");
+  assert.equal(best.exact, true);
+});
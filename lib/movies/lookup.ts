@@ -0,0 +1,92 @@
+import type { MovieChunk, MovieFilter, MovieStore } from "../store";
+import { toMovieRecord } from "./grouping";
+import { movieId, tmdbSourceUrl } from "./ids";
+import { normalizeTitle, scoreTitleMatch, titleSearchTerms } from "./titles";
+
+export interface TitleMatch {
+  movie: MovieChunk;
+  score: number;
+  exact: boolean;
+}
+
+// Scores at or above this are treated as the movie the user named.
+export const TITLE_MATCH_THRESHOLD = 0.8;
+
+const CANDIDATE_LIMIT = 100;
+const YEAR_MISMATCH_PENALTY = 0.6;
+const YEAR_MATCH_BONUS = 0.05;
+
+export function releaseYear(movie: Pick<MovieChunk, "release_date">): number | undefined {
+  const year = parseInt(movie.release_date?.slice(0, 4) ?? "", 10);
+  return Number.isNaN(year) ? undefined : year;
+}
+
+// Resolves a user-supplied title to ranked candidates. Candidates are fetched
+// server-side by normalized key and title terms, then re-scored with fuzzy
+// matching and the optional release year. The exact key is looked up on its
+// own, so a title can't be crowded out of the capped fuzzy query by movies
+// that only share a prefix with it.
+export async function resolveTitle(
+  store: MovieStore,
+  title: string,
+  year?: number,
+  limit = 5
+): Promise<TitleMatch[]> {
+  const key = normalizeTitle(title);
+  if (!key) return [];
+
+  const exactFilter: MovieFilter = {
+    // Documents ingested before title keys existed only have the raw title.
+    $or: [{ title_key: key }, { title }],
+    chunk_index: 0,
+  };
+  // Parent chunks only, so each movie takes one slot under the cap.
+  const fuzzyFilter: MovieFilter = {
+    title_terms: { $in: titleSearchTerms(title) },
+    chunk_index: 0,
+  };
+
+  const [exactMatches, fuzzyMatches] = await Promise.all([
+    store.query(exactFilter, { limit: CANDIDATE_LIMIT }),
+    store.query(fuzzyFilter, { limit: CANDIDATE_LIMIT }),
+  ]);
+  const candidates = [...exactMatches, ...fuzzyMatches];
+
+  const best = new Map<string, TitleMatch>();
+  for (const movie of candidates) {
+    const exact = (movie.title_key ?? normalizeTitle(movie.title)) === key;
+    let score = exact ? 1 : scoreTitleMatch(title, movie.title);
+
+    if (year !== undefined) {
+      const movieYear = movie.release_year ?? releaseYear(movie);
+      score = movieYear === year
+        ? Math.min(1, score + YEAR_MATCH_BONUS)
+        : score * YEAR_MISMATCH_PENALTY;
+    }
+
+    // A movie can come back from both queries; keep its best score.
+    const id = movieId(movie);
+    const current = best.get(id);
+    const better = !current ||
+      score > current.score ||
+      (score === current.score && movie.chunk_index < current.movie.chunk_index);
+    if (better) {
+      best.set(id, { movie, score, exact });
+    }
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || (b.movie.rating ?? 0) - (a.movie.rating ?? 0))
+    .slice(0, limit)
+    .map(match => ({ ...match, movie: toMovieRecord(match.movie) }));
+}
+
+// Loads the parent document of each movie, in the order of the given TMDB ids.
+export async function getMoviesByIds(store: MovieStore, ids: string[]): Promise<MovieChunk[]> {
+  if (ids.length === 0) return [];
+  const parents = await store.query({ source: { $in: ids.map(tmdbSourceUrl) }, chunk_index: 0 });
+
+  const byId = new Map<string, MovieChunk>();
+  for (const parent of parents) byId.set(movieId(parent), toMovieRecord(parent));
+  return ids.map(id => byId.get(id)).filter((m): m is MovieChunk => m !== undefined);
+}
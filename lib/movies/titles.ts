@@ -0,0 +1,103 @@
+// === Title Normalization ===
+// Titles are reduced to a canonical key so "The Dark Knight", "dark knight"
+// and "Dark Knight, The" compare equal, and "Rocky II" matches "Rocky 2".
+
+const LEADING_ARTICLES = new Set(["the", "a", "an"]);
+const STOPWORDS = new Set(["the", "a", "an", "of", "and", "in", "on", "to", "for"]);
+
+const ROMAN_NUMERALS: Record<string, string> = {
+  ii: "2", iii: "3", iv: "4", v: "5", vi: "6", vii: "7", viii: "8", ix: "9", x: "10",
+  xi: "11", xii: "12", xiii: "13", xiv: "14", xv: "15",
+};
+
+// A trailing prefix term lets typo'd words still find candidates server-side.
+const PREFIX_LENGTH = 3;
+
+export function titleTokens(title: string): string[] {
+  const tokens = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(token => ROMAN_NUMERALS[token] ?? token);
+
+  // "Dark Knight, The" and "The Dark Knight" both drop the article.
+  if (tokens.length > 1 && LEADING_ARTICLES.has(tokens[0])) tokens.shift();
+  if (tokens.length > 1 && tokens[tokens.length - 1] === "the") tokens.pop();
+  return tokens;
+}
+
+export function normalizeTitle(title: string): string {
+  return titleTokens(title).join(" ");
+}
+
+// Terms stored on every document (and used as the lookup filter): the
+// significant tokens of the title plus a short prefix of each.
+export function titleSearchTerms(title: string): string[] {
+  const tokens = titleTokens(title);
+  const significant = tokens.filter(token => !STOPWORDS.has(token));
+  const terms = significant.length > 0 ? significant : tokens;
+  const prefixes = terms
+    .filter(token => token.length > PREFIX_LENGTH)
+    .map(token => `${token.slice(0, PREFIX_LENGTH)}*`);
+  return [...new Set([...terms, ...prefixes])];
+}
+
+// === Fuzzy Scoring ===
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions.
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+}
+
+function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+// Fraction of query tokens that fuzzily appear in the candidate title.
+function tokenCoverage(queryTokens: string[], candidateTokens: string[]): number {
+  if (queryTokens.length === 0) return 0;
+  const matched = queryTokens.filter(q =>
+    candidateTokens.some(c => c === q || (q.length > 3 && editSimilarity(q, c) >= 0.8))
+  );
+  return matched.length / queryTokens.length;
+}
+
+// Score in [0, 1] for how well `query` names `candidate`; 1 means identical keys.
+export function scoreTitleMatch(query: string, candidate: string): number {
+  const queryKey = normalizeTitle(query);
+  const candidateKey = normalizeTitle(candidate);
+  if (!queryKey || !candidateKey) return 0;
+  if (queryKey === candidateKey) return 1;
+
+  const queryTokens = queryKey.split(" ");
+  const candidateTokens = candidateKey.split(" ");
+  const coverage = tokenCoverage(queryTokens, candidateTokens);
+  // Penalise candidates with many extra words ("Heat" vs "The Heat of the Night").
+  const lengthRatio =
+    Math.min(queryTokens.length, candidateTokens.length) /
+    Math.max(queryTokens.length, candidateTokens.length);
+
+  return Math.max(
+    editSimilarity(queryKey, candidateKey),
+    coverage * (0.6 + 0.3 * lengthRatio)
+  );
+}
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { matchesFilter } from "../store";
+import { toStoreFilter } from "./filters";
+
+const streamingInGB = {
+  where_to_watch: ["Hulu"],
+  availability: { US: { flatrate: ["Hulu"] }, GB: { flatrate: ["Netflix"] } },
+};
+const legacy = { where_to_watch: ["Netflix"] };
+
+test("matches a provider in the request's region", () => {
+  const filter = toStoreFilter({ provider: "Netflix" }, "GB");
+  assert.equal(matchesFilter(streamingInGB, filter), true);
+  assert.equal(matchesFilter(streamingInGB, toStoreFilter({ provider: "Netflix" }, "US")), false);
+  assert.equal(matchesFilter(legacy, filter), true);
+});
+
+test("falls back to where_to_watch without a region", () => {
+  const filter = toStoreFilter({ provider: "Netflix" });
+  assert.equal(matchesFilter(streamingInGB, filter), false);
+  assert.equal(matchesFilter(legacy, filter), true);
+});
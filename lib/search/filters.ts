@@ -0,0 +1,227 @@
+import type { MovieFilter, OfferType } from "../store";
+
+// === Structured Search Filters ===
+// Constraints extracted from a query ("best action movies from the 90s on
+// Netflix") and pushed into the store query next to the vector sort.
+
+export interface YearRange {
+  from?: number;
+  to?: number;
+}
+
+export interface RuntimeRange {
+  min?: number;
+  max?: number;
+}
+
+export interface SearchFilters {
+  genres?: string[];
+  years?: YearRange;
+  minRating?: number;
+  provider?: string;
+  runtime?: RuntimeRange;
+}
+
+export type FilterField = keyof SearchFilters;
+
+// Constraints are dropped in this order when nothing matches all of them.
+export const RELAXATION_ORDER: FilterField[] = ["runtime", "minRating", "provider", "years", "genres"];
+
+// === Genres ===
+// Patterns are matched against the query, values are TMDB genre names.
+const GENRE_ALIASES: [RegExp, string[]][] = [
+  [/\baction\b/, ["Action"]],
+  [/\badventures?\b/, ["Adventure"]],
+  [/\b(animated|animation|anime|cartoons?)\b/, ["Animation"]],
+  [/\brom-?coms?\b/, ["Romance", "Comedy"]],
+  [/\b(comedy|comedies|funny)\b/, ["Comedy"]],
+  [/\bcrime\b/, ["Crime"]],
+  [/\bdocumentar(y|ies)\b/, ["Documentary"]],
+  [/\bdramas?\b/, ["Drama"]],
+  [/\bfamily\b/, ["Family"]],
+  [/\bfantasy\b/, ["Fantasy"]],
+  [/\b(history|historical)\b/, ["History"]],
+  [/\bhorror\b/, ["Horror"]],
+  [/\b(music|musicals?)\b/, ["Music"]],
+  [/\bmyster(y|ies)\b/, ["Mystery"]],
+  [/\broman(ce|tic)\b/, ["Romance"]],
+  [/\b(sci-?fi|science fiction)\b/, ["Science Fiction"]],
+  [/\bthrillers?\b/, ["Thriller"]],
+  [/\bwar\b/, ["War"]],
+  [/\bwesterns?\b/, ["Western"]],
+];
+
+export function extractGenres(text: string): string[] {
+  const lower = text.toLowerCase();
+  const genres = GENRE_ALIASES.filter(([pattern]) => pattern.test(lower)).flatMap(([, names]) => names);
+  return [...new Set(genres)];
+}
+
+// === Years ===
+function decadeStart(digits: string): number {
+  if (digits.length === 4) return parseInt(digits, 10);
+  const twoDigit = parseInt(digits, 10);
+  const currentTwoDigit = new Date().getFullYear() % 100;
+  return twoDigit <= currentTwoDigit ? 2000 + twoDigit : 1900 + twoDigit;
+}
+
+export function extractYearRange(text: string): YearRange | undefined {
+  const lower = text.toLowerCase();
+
+  const decade = lower.match(/\b(?:the\s+)?((?:19|20)?\d0)'?s\b/);
+  if (decade) {
+    const from = decadeStart(decade[1]);
+    return { from, to: from + 9 };
+  }
+
+  const between = lower.match(/\b(?:between|from)\s+((?:19|20)\d{2})\s+(?:and|to|-)\s+((?:19|20)\d{2})\b/);
+  if (between) return { from: parseInt(between[1], 10), to: parseInt(between[2], 10) };
+
+  const after = lower.match(/\b(?:after|since)\s+((?:19|20)\d{2})\b/);
+  if (after) return { from: parseInt(after[1], 10) };
+
+  const before = lower.match(/\bbefore\s+((?:19|20)\d{2})\b/);
+  if (before) return { to: parseInt(before[1], 10) };
+
+  const single = lower.match(/\b(?:in|from|of)\s+((?:19|20)\d{2})\b/);
+  if (single) {
+    const year = parseInt(single[1], 10);
+    return { from: year, to: year };
+  }
+  return undefined;
+}
+
+// === Rating ===
+export function extractMinRating(text: string): number | undefined {
+  const lower = text.toLowerCase();
+  const match =
+    lower.match(/\brated (?:above|over|at least|higher than|more than) (\d+(?:\.\d)?)/) ??
+    lower.match(/\b(?:rating|score) (?:of |above |over |at least )?(\d+(?:\.\d)?)(?:\+| or (?:higher|more|above))/) ??
+    lower.match(/\b(\d+(?:\.\d)?)\+ (?:rating|rated|stars)\b/);
+  if (!match) return undefined;
+  const rating = parseFloat(match[1]);
+  return rating > 0 && rating <= 10 ? rating : undefined;
+}
+
+// === Providers ===
+// Canonical name plus the spellings TMDB uses across regions and tiers.
+const PROVIDERS: { pattern: RegExp; name: string; variants: string[] }[] = [
+  { pattern: /\bnetflix\b/, name: "Netflix", variants: ["Netflix", "Netflix basic with Ads"] },
+  { pattern: /\bhulu\b/, name: "Hulu", variants: ["Hulu"] },
+  { pattern: /\b(amazon|prime video|on prime)\b/, name: "Amazon Prime Video", variants: ["Amazon Prime Video", "Amazon Prime Video with Ads"] },
+  { pattern: /\bdisney\s*(\+|plus)?/, name: "Disney Plus", variants: ["Disney Plus", "Disney+"] },
+  { pattern: /\b(hbo(?: max)?|on max)\b/, name: "Max", variants: ["Max", "HBO Max", "Max Amazon Channel"] },
+  { pattern: /\bapple\s*tv/, name: "Apple TV Plus", variants: ["Apple TV Plus", "Apple TV+"] },
+  { pattern: /\bpeacock\b/, name: "Peacock", variants: ["Peacock", "Peacock Premium", "Peacock Premium Plus"] },
+  { pattern: /\bparamount\s*(\+|plus)?/, name: "Paramount Plus", variants: ["Paramount Plus", "Paramount+"] },
+  { pattern: /\btubi\b/, name: "Tubi TV", variants: ["Tubi TV"] },
+  { pattern: /\bmubi\b/, name: "MUBI", variants: ["MUBI"] },
+];
+
+export function extractProvider(text: string): string | undefined {
+  const lower = text.toLowerCase();
+  return PROVIDERS.find(p => p.pattern.test(lower))?.name;
+}
+
+export function providerVariants(name: string): string[] {
+  return PROVIDERS.find(p => p.name === name)?.variants ?? [name];
+}
+
+// === Runtime ===
+function toMinutes(amount: string, unit: string): number {
+  const value = parseFloat(amount);
+  return /^h/.test(unit) ? Math.round(value * 60) : Math.round(value);
+}
+
+export function extractRuntimeRange(text: string): RuntimeRange | undefined {
+  const lower = text.toLowerCase();
+  const unit = "(hours?|hrs?|h|minutes?|mins?|m)\\b";
+
+  const max = lower.match(new RegExp(`\\b(?:under|less than|shorter than|at most|below) (\\d+(?:\\.\\d+)?) ?${unit}`));
+  const min = lower.match(new RegExp(`\\b(?:over|more than|longer than|at least) (\\d+(?:\\.\\d+)?) ?${unit}`));
+  if (!max && !min) return undefined;
+
+  return {
+    min: min ? toMinutes(min[1], min[2]) : undefined,
+    max: max ? toMinutes(max[1], max[2]) : undefined,
+  };
+}
+
+// === Assembly ===
+export function extractSearchFilters(text: string): SearchFilters {
+  const filters: SearchFilters = {};
+  const genres = extractGenres(text);
+  if (genres.length > 0) filters.genres = genres;
+  const years = extractYearRange(text);
+  if (years) filters.years = years;
+  const minRating = extractMinRating(text);
+  if (minRating !== undefined) filters.minRating = minRating;
+  const provider = extractProvider(text);
+  if (provider) filters.provider = provider;
+  const runtime = extractRuntimeRange(text);
+  if (runtime) filters.runtime = runtime;
+  return filters;
+}
+
+export function hasFilters(filters: SearchFilters): boolean {
+  return Object.values(filters).some(value => value !== undefined);
+}
+
+export function withoutFilter(filters: SearchFilters, field: FilterField): SearchFilters {
+  const copy = { ...filters };
+  delete copy[field];
+  return copy;
+}
+
+// Offer types that count as "streaming on" a provider.
+const STREAMING_OFFERS: OfferType[] = ["flatrate", "free", "ads"];
+
+// `where_to_watch` only holds the ingest region's flatrate providers, so with a
+// known region the per-region offers decide. Movies ingested before per-region
+// availability still match on `where_to_watch`.
+function providerFilter(provider: string, region?: string): MovieFilter {
+  const names = { $in: providerVariants(provider) };
+  if (!region) return { where_to_watch: names };
+  return {
+    $or: [
+      ...STREAMING_OFFERS.map(type => ({ [`availability.${region}.${type}`]: names })),
+      { availability: { $exists: false }, where_to_watch: names },
+    ],
+  };
+}
+
+export function toStoreFilter(filters: SearchFilters, region?: string): MovieFilter {
+  const clauses: MovieFilter[] = [];
+
+  if (filters.genres?.length) clauses.push({ genres: { $all: filters.genres } });
+  if (filters.years?.from !== undefined) clauses.push({ release_year: { $gte: filters.years.from } });
+  if (filters.years?.to !== undefined) clauses.push({ release_year: { $lte: filters.years.to } });
+  if (filters.minRating !== undefined) clauses.push({ rating: { $gte: filters.minRating } });
+  if (filters.provider) clauses.push(providerFilter(filters.provider, region));
+  if (filters.runtime?.min !== undefined) clauses.push({ runtime: { $gte: filters.runtime.min } });
+  if (filters.runtime?.max !== undefined) clauses.push({ runtime: { $lte: filters.runtime.max } });
+
+  if (clauses.length === 0) return {};
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+export function describeFilter(filters: SearchFilters, field: FilterField): string {
+  switch (field) {
+    case "genres":
+      return `genre ${filters.genres?.join(" + ")}`;
+    case "years": {
+      const { from, to } = filters.years ?? {};
+      if (from !== undefined && to !== undefined) return from === to ? `released in ${from}` : `released ${from}–${to}`;
+      return from !== undefined ? `released after ${from}` : `released before ${to}`;
+    }
+    case "minRating":
+      return `rated ${filters.minRating}+`;
+    case "provider":
+      return `streaming on ${filters.provider}`;
+    case "runtime": {
+      const { min, max } = filters.runtime ?? {};
+      if (min !== undefined && max !== undefined) return `${min}–${max} minutes long`;
+      return max !== undefined ? `under ${max} minutes` : `over ${min} minutes`;
+    }
+  }
+}
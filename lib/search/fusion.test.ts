@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { GroupedMovie } from "../movies/grouping";
+import type { MovieChunk } from "../store";
+import { fuseRankings, RRF_K } from "./fusion";
+
+function movie(tmdbId: number, title: string): MovieChunk {
+  return {
+    _id: `${tmdbId}_0`,
+    text: title,
+    title,
+    release_date: "1995-12-15",
+    rating: 8,
+    where_to_watch: [],
+    source: `https://www.themoviedb.org/movie/${tmdbId}`,
+    chunk_index: 0,
+  };
+}
+
+const grouped = (m: MovieChunk, similarity: number): GroupedMovie => ({ ...m, $similarity: similarity, $chunkIds: [m._id] });
+
+const heat = movie(949, "Heat");
+const ronin = movie(8195, "Ronin");
+const thief = movie(11524, "Thief");
+
+test("movies found by both searches rank above movies found by one", () => {
+  const fused = fuseRankings([grouped(ronin, 0.9), grouped(heat, 0.8)], [{ movie: thief, score: 12 }, { movie: heat, score: 9 }]);
+  assert.deepEqual(fused.map(m => m.title), ["Heat", "Ronin", "Thief"]);
+
+  const [top] = fused;
+  assert.equal(top.$scores.fused, 1 / (RRF_K + 2) + 1 / (RRF_K + 2));
+  assert.deepEqual(top.$scores.vector?.rank, 2);
+  assert.deepEqual(top.$scores.lexical, { rank: 2, score: 9 });
+  assert.equal(top.$similarity, 0.8);
+});
+
+test("lexical-only movies have no similarity", () => {
+  const [only] = fuseRankings([], [{ movie: thief, score: 3 }]);
+  assert.equal(only.$similarity, 0);
+  assert.equal(only.$scores.vector, undefined);
+});
@@ -0,0 +1,50 @@
+import type { GroupedMovie } from "../movies/grouping";
+import { movieId } from "../movies/ids";
+import type { MovieChunk, ScoredMovieChunk } from "../store";
+import type { LexicalHit } from "./lexical";
+
+// === Reciprocal Rank Fusion ===
+// Merges the vector and lexical rankings by rank rather than raw score, since
+// cosine similarity and BM25 aren't on comparable scales.
+
+// Standard RRF damping constant: keeps the top few ranks from dominating.
+export const RRF_K = 60;
+
+// Where each result came from, for debugging retrieval quality.
+export interface RetrievalScores {
+  fused: number;
+  vector?: { rank: number; similarity: number; matchedChunks: number; chunkIds: string[] };
+  lexical?: { rank: number; score: number };
+}
+
+export type HybridMovie = ScoredMovieChunk & { $scores: RetrievalScores };
+
+// `vector` should already hold one entry per movie, best first.
+export function fuseRankings(vector: GroupedMovie[], lexical: LexicalHit[]): HybridMovie[] {
+  const fused = new Map<string, { movie: MovieChunk; similarity: number; scores: RetrievalScores }>();
+
+  vector.forEach(({ $chunkIds, ...movie }, index) => {
+    const rank = index + 1;
+    fused.set(movieId(movie), {
+      movie,
+      similarity: movie.$similarity,
+      scores: {
+        fused: 1 / (RRF_K + rank),
+        vector: { rank, similarity: movie.$similarity, matchedChunks: $chunkIds.length, chunkIds: $chunkIds },
+      },
+    });
+  });
+
+  lexical.forEach(({ movie, score }, index) => {
+    const rank = index + 1;
+    const key = movieId(movie);
+    const entry = fused.get(key) ?? { movie, similarity: 0, scores: { fused: 0 } };
+    entry.scores.fused += 1 / (RRF_K + rank);
+    entry.scores.lexical = { rank, score };
+    fused.set(key, entry);
+  });
+
+  return [...fused.values()]
+    .sort((a, b) => b.scores.fused - a.scores.fused)
+    .map(({ movie, similarity, scores }) => ({ ...movie, $similarity: similarity, $scores: scores }));
+}
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+import { createLocalMovieStore } from "../store/local";
+import type { MovieChunk } from "../store";
+import { getLexicalIndex, writeLexicalIndex } from "./lexical";
+
+const dir = mkdtempSync(join(tmpdir(), "lexical-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function movie(tmdbId: number, title: string, director: string): MovieChunk {
+  return {
+    _id: `${tmdbId}_0`,
+    text: title,
+    title,
+    director,
+    release_date: "2019-05-30",
+    rating: 8,
+    where_to_watch: [],
+    source: `https://www.themoviedb.org/movie/${tmdbId}`,
+    chunk_index: 0,
+  };
+}
+
+test("searches the index the ingester wrote and picks up a rebuild", async () => {
+  const store = createLocalMovieStore(join(dir, "store.json"));
+  const path = join(dir, "lexical-index.json");
+  await store.upsertChunks([movie(496243, "Parasite", "Bong Joon-ho")]);
+  await writeLexicalIndex(store, path);
+
+  const before = await getLexicalIndex(path);
+  assert.deepEqual(before.search("Bong Joon-ho").map(hit => hit.movie.title), ["Parasite"]);
+
+  // Written to the store only: requests don't see it until the index is rebuilt.
+  await store.upsertChunks([movie(293670, "Memories of Murder", "Bong Joon-ho")]);
+  assert.equal((await getLexicalIndex(path)).size, 1);
+
+  await writeLexicalIndex(store, path);
+  assert.equal((await getLexicalIndex(path)).search("Bong Joon-ho").length, 2);
+});
+
+test("without an index file lexical search finds nothing", async () => {
+  const index = await getLexicalIndex(join(dir, "missing.json"));
+  assert.equal(index.size, 0);
+  assert.deepEqual(index.search("Parasite"), []);
+});
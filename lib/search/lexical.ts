@@ -0,0 +1,163 @@
+import { mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { toMovieRecord } from "../movies/grouping";
+import type { MovieChunk, MovieStore } from "../store";
+
+// === BM25 Lexical Index ===
+// Scores movies on exact words in their title, credits, keywords and
+// overview, so names like "Florence Pugh" match even when embeddings don't.
+
+export interface LexicalHit {
+  movie: MovieChunk;
+  score: number;
+}
+
+export interface LexicalIndex {
+  readonly size: number;
+  search(query: string, limit?: number): LexicalHit[];
+}
+
+// Field weights: a word in the title or credits counts more than one in the overview.
+const FIELD_WEIGHTS: { field: keyof MovieChunk; weight: number }[] = [
+  { field: "title", weight: 3 },
+  { field: "director", weight: 2 },
+  { field: "cast", weight: 2 },
+  { field: "keywords", weight: 1.5 },
+  { field: "genres", weight: 1 },
+  { field: "overview", weight: 1 },
+];
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in", "is", "it", "of",
+  "on", "or", "that", "the", "to", "was", "with", "who", "what", "which", "me", "i", "any",
+  "movie", "movies", "film", "films", "starring", "featuring", "directed", "show", "find",
+  "best", "top", "good", "great", "rated", "underrated", "recommend",
+]);
+
+export function lexicalTokens(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    // Fold simple plurals so "thrillers" matches the "Thriller" genre.
+    .map(token => (token.length > 3 && /[^s]s$/.test(token) ? token.slice(0, -1) : token));
+}
+
+function fieldText(movie: MovieChunk, field: keyof MovieChunk): string {
+  const value = movie[field];
+  if (Array.isArray(value)) return value.join(" ");
+  return typeof value === "string" ? value : "";
+}
+
+interface IndexedMovie {
+  movie: MovieChunk;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export function buildLexicalIndex(movies: MovieChunk[]): LexicalIndex {
+  const indexed: IndexedMovie[] = movies.map(movie => {
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+    for (const { field, weight } of FIELD_WEIGHTS) {
+      for (const token of lexicalTokens(fieldText(movie, field))) {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + weight);
+        length += weight;
+      }
+    }
+    return { movie, termFrequencies, length };
+  });
+
+  const documentFrequencies = new Map<string, number>();
+  for (const { termFrequencies } of indexed) {
+    for (const term of termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }
+  }
+
+  const total = indexed.length;
+  const averageLength = indexed.reduce((sum, doc) => sum + doc.length, 0) / Math.max(total, 1);
+  const idf = (term: string) => {
+    const df = documentFrequencies.get(term) ?? 0;
+    return Math.log(1 + (total - df + 0.5) / (df + 0.5));
+  };
+
+  return {
+    size: total,
+    search(query, limit = 10) {
+      const terms = [...new Set(lexicalTokens(query))].filter(term => documentFrequencies.has(term));
+      if (terms.length === 0) return [];
+
+      const hits: LexicalHit[] = [];
+      for (const doc of indexed) {
+        let score = 0;
+        for (const term of terms) {
+          const tf = doc.termFrequencies.get(term);
+          if (!tf) continue;
+          const norm = K1 * (1 - B + (B * doc.length) / averageLength);
+          score += idf(term) * ((tf * (K1 + 1)) / (tf + norm));
+        }
+        if (score > 0) hits.push({ movie: doc.movie, score });
+      }
+      return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+  };
+}
+
+// === Persisted Index ===
+// The ingester writes the first chunk of every movie (movie-level fields are
+// copied onto each chunk) to LEXICAL_INDEX_PATH after each run that changes
+// the store, so requests never scan the collection. A server reloads the
+// file when it changes; until one exists, lexical search finds nothing.
+const DEFAULT_INDEX_PATH = ".data/lexical-index.json";
+
+interface LexicalSnapshot {
+  builtAt: string;
+  movies: MovieChunk[];
+}
+
+const EMPTY_INDEX = buildLexicalIndex([]);
+
+let loaded: { index: LexicalIndex; path: string; modifiedAt: number } | null = null;
+let warnedMissing = false;
+
+export function getLexicalIndexPath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.LEXICAL_INDEX_PATH || DEFAULT_INDEX_PATH;
+}
+
+// Ingest time only: reads every movie in the store. Returns how many were indexed.
+export async function writeLexicalIndex(store: MovieStore, path = getLexicalIndexPath()): Promise<number> {
+  const parents = await store.query({ chunk_index: 0 });
+  const snapshot: LexicalSnapshot = { builtAt: new Date().toISOString(), movies: parents.map(toMovieRecord) };
+
+  // Through a temp file and rename, so a server never reads half a file.
+  mkdirSync(dirname(path), { recursive: true });
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(snapshot));
+  renameSync(tmpPath, path);
+  invalidateLexicalIndex();
+  return snapshot.movies.length;
+}
+
+export async function getLexicalIndex(path = getLexicalIndexPath()): Promise<LexicalIndex> {
+  const stats = statSync(path, { throwIfNoEntry: false });
+  if (!stats) {
+    if (!warnedMissing) console.warn(`No lexical index at ${path}; run \`npm run ingest -- index\` to build it.`);
+    warnedMissing = true;
+    return EMPTY_INDEX;
+  }
+  if (!loaded || loaded.path !== path || loaded.modifiedAt !== stats.mtimeMs) {
+    const snapshot = JSON.parse(readFileSync(path, "utf-8")) as LexicalSnapshot;
+    loaded = { index: buildLexicalIndex(snapshot.movies), path, modifiedAt: stats.mtimeMs };
+  }
+  return loaded.index;
+}
+
+export function invalidateLexicalIndex(): void {
+  loaded = null;
+}
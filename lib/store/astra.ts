@@ -0,0 +1,104 @@
+import { DataAPIClient } from "@datastax/astra-db-ts";
+import type {
+  MovieChunk,
+  MovieFilter,
+  MovieStore,
+  QueryOptions,
+  ScoredMovieChunk,
+  VectorSearchOptions,
+} from "./types";
+
+const DOCUMENT_PROJECTION = {
+  title: 1,
+  title_key: 1,
+  release_year: 1,
+  text: 1,
+  release_date: 1,
+  rating: 1,
+  overview: 1,
+  where_to_watch: 1,
+  availability: 1,
+  genres: 1,
+  director: 1,
+  runtime: 1,
+  cast: 1,
+  keywords: 1,
+  source: 1,
+  chunk_index: 1,
+  chunk_count: 1,
+  full_text: 1,
+  content_hash: 1,
+  ingested_at: 1,
+} as const;
+
+export function createAstraMovieStore(): MovieStore {
+  const {
+    ASTRA_DB_NAMESPACE,
+    ASTRA_DB_COLLECTION,
+    ASTRA_DB_API_ENDPOINT,
+    ASTRA_DB_APPLICATION_TOKEN,
+  } = process.env;
+
+  const client = new DataAPIClient(ASTRA_DB_APPLICATION_TOKEN!);
+  const db = client.db(ASTRA_DB_API_ENDPOINT!, { keyspace: ASTRA_DB_NAMESPACE! });
+  const collection = db.collection(ASTRA_DB_COLLECTION!);
+
+  const projectionFor = (options: QueryOptions) =>
+    options.includeVector ? { ...DOCUMENT_PROJECTION, $vector: 1 as const } : DOCUMENT_PROJECTION;
+
+  return {
+    kind: "astra",
+
+    async ensureReady(dimension) {
+      try {
+        await db.createCollection(ASTRA_DB_COLLECTION!, {
+          vector: { dimension, metric: "cosine" },
+        });
+        console.log("✅ Collection created");
+      } catch (err) {
+        if (err instanceof Error && err.message.includes("already exists")) {
+          console.log("ℹ️ Collection already exists");
+        } else {
+          throw err;
+        }
+      }
+    },
+
+    async upsertChunks(chunks) {
+      const results = await Promise.all(
+        chunks.map(({ _id, ...doc }) => collection.replaceOne({ _id }, doc, { upsert: true }))
+      );
+      return results.filter(r => r.modifiedCount > 0 || r.upsertedCount > 0).length;
+    },
+
+    async deleteChunks(ids) {
+      if (ids.length === 0) return 0;
+      const { deletedCount } = await collection.deleteMany({ _id: { $in: ids } });
+      return deletedCount;
+    },
+
+    async getById(id) {
+      return (await collection.findOne({ _id: id }, {
+        projection: DOCUMENT_PROJECTION,
+      })) as MovieChunk | null;
+    },
+
+    async vectorSearch(vector, options: VectorSearchOptions = {}) {
+      const filter: MovieFilter = { $vector: { $exists: true }, ...options.filter };
+      return (await collection
+        .find(filter, {
+          sort: { $vector: vector },
+          limit: options.limit ?? 5,
+          includeSimilarity: true,
+          projection: projectionFor(options),
+        })
+        .toArray()) as ScoredMovieChunk[];
+    },
+
+    async query(filter: MovieFilter, options: QueryOptions = {}) {
+      return (await collection
+        .find(filter, { limit: options.limit, projection: projectionFor(options) })
+        .toArray()) as MovieChunk[];
+    },
+  };
+}
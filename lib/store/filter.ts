@@ -0,0 +1,83 @@
+import type { FieldOperators, FilterPrimitive, MovieFilter } from "./types";
+
+// In-process evaluation of MovieFilter, mirroring the Data API semantics:
+// a condition on an array field matches when any element satisfies it.
+
+function getPath(doc: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== "object") {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[key];
+  }, doc);
+}
+
+function isOperatorObject(value: unknown): value is FieldOperators {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).every(key => key.startsWith("$"))
+  );
+}
+
+function compare(a: unknown, b: number | string): number | null {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string") return a < b ? -1 : a > b ? 1 : 0;
+  return null;
+}
+
+function scalarMatches(value: unknown, ops: FieldOperators): boolean {
+  if (ops.$eq !== undefined && value !== ops.$eq) return false;
+  if (ops.$ne !== undefined && value === ops.$ne) return false;
+  if (ops.$in && !ops.$in.includes(value as FilterPrimitive)) return false;
+  if (ops.$nin && ops.$nin.includes(value as FilterPrimitive)) return false;
+
+  const bounds: [keyof FieldOperators, (c: number) => boolean][] = [
+    ["$gt", c => c > 0],
+    ["$gte", c => c >= 0],
+    ["$lt", c => c < 0],
+    ["$lte", c => c <= 0],
+  ];
+  for (const [op, test] of bounds) {
+    const bound = ops[op] as number | string | undefined;
+    if (bound === undefined) continue;
+    const c = compare(value, bound);
+    if (c === null || !test(c)) return false;
+  }
+  return true;
+}
+
+function fieldMatches(value: unknown, condition: FilterPrimitive | FieldOperators): boolean {
+  const ops: FieldOperators = isOperatorObject(condition) ? condition : { $eq: condition };
+
+  if (ops.$exists !== undefined && (value !== undefined) !== ops.$exists) return false;
+
+  if (ops.$all) {
+    if (!Array.isArray(value)) return false;
+    if (!ops.$all.every(item => value.includes(item))) return false;
+  }
+
+  const rest: FieldOperators = { ...ops };
+  delete rest.$exists;
+  delete rest.$all;
+  if (Object.keys(rest).length === 0) return true;
+
+  if (Array.isArray(value)) {
+    // Negative operators must hold for every element, the rest for any.
+    if (rest.$ne !== undefined || rest.$nin) {
+      return value.every(item => scalarMatches(item, rest));
+    }
+    return value.some(item => scalarMatches(item, rest));
+  }
+  return scalarMatches(value, rest);
+}
+
+export function matchesFilter(doc: unknown, filter: MovieFilter = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    if (key === "$and") return (condition as MovieFilter[]).every(f => matchesFilter(doc, f));
+    if (key === "$or") return (condition as MovieFilter[]).some(f => matchesFilter(doc, f));
+    return fieldMatches(getPath(doc, key), condition as FilterPrimitive | FieldOperators);
+  });
+}
@@ -0,0 +1,40 @@
+import { createAstraMovieStore } from "./astra";
+import { createLocalMovieStore } from "./local";
+import type { MovieStore, StoreKind } from "./types";
+
+export * from "./types";
+export { matchesFilter } from "./filter";
+export { cosineSimilarity } from "./local";
+
+// MOVIE_STORE=local keeps everything in LOCAL_STORE_PATH, no Astra DB needed.
+const DEFAULT_LOCAL_STORE_PATH = ".data/movie-store.json";
+
+export function getStoreKind(): StoreKind {
+  const kind = (process.env.MOVIE_STORE || "astra").toLowerCase();
+  if (kind !== "astra" && kind !== "local") {
+    throw new Error(`Unknown MOVIE_STORE "${kind}" (expected "astra" or "local")`);
+  }
+  return kind;
+}
+
+export function requiredStoreEnvVars(): string[] {
+  return getStoreKind() === "astra"
+    ? [
+        "ASTRA_DB_NAMESPACE",
+        "ASTRA_DB_COLLECTION",
+        "ASTRA_DB_API_ENDPOINT",
+        "ASTRA_DB_APPLICATION_TOKEN",
+      ]
+    : [];
+}
+
+let store: MovieStore | null = null;
+
+export function getMovieStore(): MovieStore {
+  if (!store) {
+    store = getStoreKind() === "local"
+      ? createLocalMovieStore(process.env.LOCAL_STORE_PATH || DEFAULT_LOCAL_STORE_PATH)
+      : createAstraMovieStore();
+  }
+  return store;
+}
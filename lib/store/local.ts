@@ -0,0 +1,115 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { matchesFilter } from "./filter";
+import type { MovieChunk, MovieStore, QueryOptions, ScoredMovieChunk } from "./types";
+
+// File-backed store for offline development: the whole collection lives in
+// memory and is persisted as one JSON file after every write.
+
+interface LocalStoreFile {
+  dimension: number | null;
+  documents: MovieChunk[];
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function withoutVector(doc: MovieChunk, options: QueryOptions): MovieChunk {
+  if (options.includeVector) return { ...doc };
+  const copy = { ...doc };
+  delete copy.$vector;
+  return copy;
+}
+
+export function createLocalMovieStore(path: string): MovieStore {
+  let dimension: number | null = null;
+  let documents: Map<string, MovieChunk> | null = null;
+
+  const load = (): Map<string, MovieChunk> => {
+    if (documents) return documents;
+    documents = new Map();
+    if (existsSync(path)) {
+      const data: LocalStoreFile = JSON.parse(readFileSync(path, "utf-8"));
+      dimension = data.dimension;
+      for (const doc of data.documents) documents.set(doc._id, doc);
+    }
+    return documents;
+  };
+
+  const persist = () => {
+    const data: LocalStoreFile = { dimension, documents: [...load().values()] };
+    mkdirSync(dirname(path), { recursive: true });
+    const tmpPath = `${path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(data));
+    renameSync(tmpPath, path);
+  };
+
+  return {
+    kind: "local",
+
+    async ensureReady(dim) {
+      load();
+      if (dimension !== null && dimension !== dim) {
+        throw new Error(`Local store at ${path} holds ${dimension}-d vectors, expected ${dim}`);
+      }
+      if (dimension === null) {
+        dimension = dim;
+        persist();
+        console.log(`✅ Local store created at ${path}`);
+      } else {
+        console.log(`ℹ️ Local store already exists at ${path}`);
+      }
+    },
+
+    async upsertChunks(chunks) {
+      const docs = load();
+      for (const chunk of chunks) docs.set(chunk._id, { ...chunk });
+      persist();
+      return chunks.length;
+    },
+
+    async deleteChunks(ids) {
+      const docs = load();
+      const deleted = ids.filter(id => docs.delete(id)).length;
+      if (deleted > 0) persist();
+      return deleted;
+    },
+
+    async getById(id) {
+      const doc = load().get(id);
+      return doc ? withoutVector(doc, {}) : null;
+    },
+
+    async vectorSearch(vector, options = {}) {
+      const scored: ScoredMovieChunk[] = [];
+      for (const doc of load().values()) {
+        if (!doc.$vector || !matchesFilter(doc, options.filter)) continue;
+        // Report similarity on the same [0, 1] scale as Astra's cosine metric.
+        const $similarity = (1 + cosineSimilarity(vector, doc.$vector)) / 2;
+        scored.push({ ...withoutVector(doc, options), $similarity });
+      }
+      return scored
+        .sort((a, b) => b.$similarity - a.$similarity)
+        .slice(0, options.limit ?? 5);
+    },
+
+    async query(filter, options = {}) {
+      const results: MovieChunk[] = [];
+      for (const doc of load().values()) {
+        if (options.limit !== undefined && results.length >= options.limit) break;
+        if (matchesFilter(doc, filter)) results.push(withoutVector(doc, options));
+      }
+      return results;
+    },
+  };
+}
@@ -0,0 +1,88 @@
+// === Movie Documents ===
+// One document per text chunk, as written by the ingester. Movie-level fields
+// are copied onto every chunk; the first chunk (chunk_index 0) is the parent
+// document and also carries the unsplit `full_text`.
+export interface MovieChunk {
+  _id: string;
+  $vector?: number[];
+  text: string;
+  title: string;
+  release_date: string;
+  rating: number;
+  // Streaming (flatrate) providers in the ingest's default region
+  where_to_watch: string[];
+  // Keyed by ISO 3166-1 region code
+  availability?: Record<string, RegionAvailability>;
+  source: string;
+  chunk_index: number;
+  title_key?: string;
+  title_terms?: string[];
+  release_year?: number;
+  overview?: string;
+  genres?: string[];
+  director?: string;
+  runtime?: number;
+  cast?: string[];
+  keywords?: string[];
+  chunk_count?: number;
+  full_text?: string;
+  // sha256 of the embedded text; a refresh only re-embeds when it changes.
+  content_hash?: string;
+  ingested_at?: string;
+}
+
+// === Watch Availability ===
+// Provider names per offer type for one region, as listed by TMDB.
+export type OfferType = "flatrate" | "free" | "ads" | "rent" | "buy";
+
+export type RegionAvailability = Partial<Record<OfferType, string[]>> & {
+  // TMDB page listing every offer for the region
+  link?: string;
+};
+
+export type ScoredMovieChunk = MovieChunk & { $similarity: number };
+
+// === Filters ===
+// A subset of the Data API filter language that every store understands.
+export type FilterPrimitive = string | number | boolean | null;
+
+export interface FieldOperators {
+  $eq?: FilterPrimitive;
+  $ne?: FilterPrimitive;
+  $in?: FilterPrimitive[];
+  $nin?: FilterPrimitive[];
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $exists?: boolean;
+  $all?: FilterPrimitive[];
+}
+
+export interface MovieFilter {
+  $and?: MovieFilter[];
+  $or?: MovieFilter[];
+  [field: string]: FilterPrimitive | FieldOperators | MovieFilter[] | undefined;
+}
+
+// === Store ===
+export interface QueryOptions {
+  limit?: number;
+  includeVector?: boolean;
+}
+
+export interface VectorSearchOptions extends QueryOptions {
+  filter?: MovieFilter;
+}
+
+export interface MovieStore {
+  readonly kind: StoreKind;
+  ensureReady(dimension: number): Promise<void>;
+  upsertChunks(chunks: MovieChunk[]): Promise<number>;
+  deleteChunks(ids: string[]): Promise<number>;
+  getById(id: string): Promise<MovieChunk | null>;
+  vectorSearch(vector: number[], options?: VectorSearchOptions): Promise<ScoredMovieChunk[]>;
+  query(filter: MovieFilter, options?: QueryOptions): Promise<MovieChunk[]>;
+}
+
+export type StoreKind = "astra" | "local";
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+import { createTMDBClient, getTMDBConfig, type TMDBConfig } from "./client";
+import { createTokenBucket, type TokenBucket } from "./rateLimit";
+
+const dir = mkdtempSync(join(tmpdir(), "tmdb-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const page = { page: 1, total_pages: 1, total_results: 1, results: [{ id: 496243, title: "Parasite" }] };
+
+function config(overrides: Partial<TMDBConfig>): TMDBConfig {
+  return { ...getTMDBConfig(), apiKey: "key", fixturesDir: join(dir, "fixtures"), backoffBaseMs: 1, ...overrides };
+}
+
+// Serves `responses` in order and counts the calls.
+function fakeFetch(responses: (() => Response)[]) {
+  const calls: string[] = [];
+  const fetch = async (url: string | URL | Request) => {
+    calls.push(String(url));
+    return responses[Math.min(calls.length, responses.length) - 1]();
+  };
+  return { calls, fetch: fetch as typeof globalThis.fetch };
+}
+
+function fakeBucket() {
+  const pauses: number[] = [];
+  const bucket: TokenBucket = { take: async () => undefined, pause: ms => void pauses.push(ms) };
+  return { pauses, bucket };
+}
+
+const ok = () => Response.json(page);
+const tooManyRequests = () => new Response("", { status: 429, headers: { "Retry-After": "0" } });
+const unavailable = () => new Response("", { status: 503 });
+
+test("retries a 429 after Retry-After and holds back the shared bucket", async () => {
+  const { calls, fetch } = fakeFetch([tooManyRequests, ok]);
+  const { pauses, bucket } = fakeBucket();
+  const client = createTMDBClient(config({ mode: "live" }), { fetch, bucket });
+
+  assert.deepEqual(await client.discoverMovies({ year: 2019, page: 1 }), page);
+  assert.equal(calls.length, 2);
+  assert.deepEqual(pauses, [0]);
+});
+
+test("gives up on 5xx responses after maxRetries", async () => {
+  const { calls, fetch } = fakeFetch([unavailable]);
+  const client = createTMDBClient(config({ mode: "live", maxRetries: 2 }), { fetch, bucket: fakeBucket().bucket });
+
+  await assert.rejects(client.movieDetails(496243), /status 503/);
+  assert.equal(calls.length, 3);
+});
+
+test("replays a recorded response without touching the network", async () => {
+  const recording = fakeFetch([ok]);
+  const recorder = createTMDBClient(config({ mode: "record" }), { fetch: recording.fetch, bucket: fakeBucket().bucket });
+  await recorder.discoverMovies({ year: 2019, page: 1 });
+  assert.equal(recording.calls.length, 1);
+
+  const offline = fakeFetch([() => { throw new Error("network used in replay"); }]);
+  const replayer = createTMDBClient(config({ mode: "replay", apiKey: "" }), { fetch: offline.fetch });
+  assert.deepEqual(await replayer.discoverMovies({ year: 2019, page: 1 }), page);
+  await assert.rejects(replayer.discoverMovies({ year: 2019, page: 2 }), /No TMDB fixture recorded/);
+  assert.equal(offline.calls.length, 0);
+});
+
+test("the token bucket allows a burst, then waits for a refill", async () => {
+  const bucket = createTokenBucket({ capacity: 2, refillPerSecond: 20 });
+  const startedAt = Date.now();
+  await Promise.all([bucket.take(), bucket.take()]);
+  assert.ok(Date.now() - startedAt < 25);
+  await bucket.take();
+  assert.ok(Date.now() - startedAt >= 40);
+});
+
+test("a paused token bucket holds every taker back", async () => {
+  const bucket = createTokenBucket({ capacity: 5, refillPerSecond: 1000 });
+  const startedAt = Date.now();
+  bucket.pause(60);
+  await bucket.take();
+  assert.ok(Date.now() - startedAt >= 55);
+});
@@ -0,0 +1,187 @@
+import { createFixtureStore, fixtureRequest, type FixtureStore, type HttpMode } from "./fixtures";
+import { createTokenBucket, type TokenBucket } from "./rateLimit";
+import type {
+  TMDBCredits,
+  TMDBDiscoverMovie,
+  TMDBDiscoverParams,
+  TMDBMovieDetailsWithCredits,
+  TMDBPage,
+  TMDBWatchProviders,
+} from "./types";
+
+// === TMDB Client ===
+// Every request waits on one shared token bucket. 429s and 5xx responses are
+// retried with exponential backoff and jitter, honouring Retry-After; other
+// errors fail straight away.
+
+export interface TMDBConfig {
+  apiKey: string;
+  baseUrl: string;
+  requestsPerSecond: number;
+  burst: number;
+  maxRetries: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  mode: HttpMode;
+  fixturesDir: string;
+}
+
+export interface TMDBClient {
+  readonly mode: HttpMode;
+  discoverMovies(params: TMDBDiscoverParams): Promise<TMDBPage<TMDBDiscoverMovie>>;
+  movieDetails(id: number): Promise<TMDBMovieDetailsWithCredits>;
+  movieCredits(id: number): Promise<TMDBCredits>;
+  watchProviders(id: number): Promise<TMDBWatchProviders>;
+}
+
+interface ClientDeps {
+  fetch?: typeof fetch;
+  bucket?: TokenBucket;
+  fixtures?: FixtureStore;
+}
+
+const HTTP_MODES: HttpMode[] = ["live", "record", "replay"];
+
+function parseNumber(value: string | undefined, fallback: number, variable: string): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed <= 0) throw new Error(`Invalid ${variable}: ${value}`);
+  return parsed;
+}
+
+export function getTMDBConfig(env: NodeJS.ProcessEnv = process.env): TMDBConfig {
+  const mode = (env.TMDB_HTTP_MODE || "live").toLowerCase() as HttpMode;
+  if (!HTTP_MODES.includes(mode)) {
+    throw new Error(`Unknown TMDB_HTTP_MODE "${mode}" (expected live, record or replay)`);
+  }
+  const requestsPerSecond = parseNumber(env.TMDB_REQUESTS_PER_SECOND, 4, "TMDB_REQUESTS_PER_SECOND");
+
+  return {
+    apiKey: env.TMDB_API_KEY || "",
+    baseUrl: "https://api.themoviedb.org/3",
+    requestsPerSecond,
+    burst: Math.max(1, Math.floor(requestsPerSecond)),
+    maxRetries: parseNumber(env.TMDB_MAX_RETRIES, 5, "TMDB_MAX_RETRIES"),
+    backoffBaseMs: 500,
+    backoffMaxMs: 30_000,
+    mode,
+    fixturesDir: env.TMDB_FIXTURES_DIR || ".data/tmdb-fixtures",
+  };
+}
+
+// Replay needs no key since nothing goes over the network.
+export function requiredTMDBEnvVars(config: TMDBConfig = getTMDBConfig()): string[] {
+  return config.mode === "replay" ? [] : ["TMDB_API_KEY"];
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function retryAfterMs(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter, so retrying workers spread out.
+function backoffMs(attempt: number, config: TMDBConfig): number {
+  const ceiling = Math.min(config.backoffMaxMs, config.backoffBaseMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createTMDBClient(config: TMDBConfig = getTMDBConfig(), deps: ClientDeps = {}): TMDBClient {
+  const fetchImpl = deps.fetch ?? fetch;
+  const bucket = deps.bucket ?? createTokenBucket({ capacity: config.burst, refillPerSecond: config.requestsPerSecond });
+  const fixtures = deps.fixtures ?? createFixtureStore(config.fixturesDir);
+
+  async function fetchLive(request: string): Promise<{ status: number; body: unknown }> {
+    const separator = request.includes("?") ? "&" : "?";
+    const url = `${config.baseUrl}${request}${separator}api_key=${encodeURIComponent(config.apiKey)}`;
+
+    for (let attempt = 0; ; attempt++) {
+      await bucket.take();
+      let res: Response;
+      try {
+        res = await fetchImpl(url);
+      } catch (err) {
+        // Network errors (reset connections, DNS hiccups) are worth retrying too.
+        if (attempt >= config.maxRetries) throw err;
+        const delay = backoffMs(attempt, config);
+        console.warn(`⏳ TMDB ${request} failed (${(err as Error).message}), retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+
+      if (res.ok) return { status: res.status, body: await res.json() };
+      if (!isRetryable(res.status) || attempt >= config.maxRetries) {
+        throw new Error(`TMDB request ${request} failed with status ${res.status}: ${res.statusText}`);
+      }
+
+      const retryAfter = retryAfterMs(res.headers.get("retry-after"));
+      const delay = retryAfter ?? backoffMs(attempt, config);
+      if (res.status === 429) {
+        // Everyone was sending too fast, not just this request.
+        bucket.pause(delay);
+      }
+      console.warn(`⏳ TMDB ${request} returned ${res.status}, retrying in ${delay}ms (${attempt + 1}/${config.maxRetries})`);
+      await sleep(delay);
+    }
+  }
+
+  async function get<T>(path: string, params: Record<string, string | number> = {}): Promise<T> {
+    const request = fixtureRequest(path, params);
+
+    if (config.mode === "replay") {
+      const fixture = fixtures.read(request);
+      if (!fixture) throw new Error(`No TMDB fixture recorded for ${request} in ${config.fixturesDir}`);
+      return fixture.body as T;
+    }
+
+    const { status, body } = await fetchLive(request);
+    if (config.mode === "record") fixtures.write(request, status, body);
+    return body as T;
+  }
+
+  return {
+    mode: config.mode,
+
+    discoverMovies({ year, page }) {
+      return get<TMDBPage<TMDBDiscoverMovie>>("/discover/movie", {
+        language: "en-US",
+        sort_by: "popularity.desc",
+        include_adult: "false",
+        include_video: "false",
+        primary_release_year: year,
+        page,
+      });
+    },
+
+    movieDetails(id) {
+      return get<TMDBMovieDetailsWithCredits>(`/movie/${id}`, {
+        language: "en-US",
+        append_to_response: "credits,keywords",
+      });
+    },
+
+    movieCredits(id) {
+      return get<TMDBCredits>(`/movie/${id}/credits`, { language: "en-US" });
+    },
+
+    watchProviders(id) {
+      return get<TMDBWatchProviders>(`/movie/${id}/watch/providers`);
+    },
+  };
+}
+
+let client: TMDBClient | null = null;
+
+export function getTMDBClient(): TMDBClient {
+  if (!client) client = createTMDBClient();
+  return client;
+}
@@ -0,0 +1,56 @@
+import crypto from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+
+// === Record / Replay ===
+// In `record` mode every successful response is saved as a JSON fixture; in
+// `replay` mode responses are served from those fixtures and the network is
+// never touched, so the ingester can run offline against a saved TMDB.
+
+export type HttpMode = "live" | "record" | "replay";
+
+export interface Fixture {
+  // Request path and query, without the API key
+  request: string;
+  status: number;
+  body: unknown;
+  recordedAt: string;
+}
+
+export interface FixtureStore {
+  read(request: string): Fixture | undefined;
+  write(request: string, status: number, body: unknown): void;
+}
+
+// Query parameters are sorted so the same request always maps to one file.
+export function fixtureRequest(path: string, params: Record<string, string | number>): string {
+  const query = Object.keys(params)
+    .sort()
+    .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(String(params[key]))}`)
+    .join("&");
+  return query ? `${path}?${query}` : path;
+}
+
+function fixtureName(request: string): string {
+  const slug = request.split("?")[0].replace(/^\/+/, "").replace(/[^a-z0-9]+/gi, "_");
+  const hash = crypto.createHash("sha256").update(request).digest("hex").slice(0, 12);
+  return `${slug}-${hash}.json`;
+}
+
+export function createFixtureStore(dir: string): FixtureStore {
+  return {
+    read(request) {
+      const path = join(dir, fixtureName(request));
+      if (!existsSync(path)) return undefined;
+      return JSON.parse(readFileSync(path, "utf-8")) as Fixture;
+    },
+
+    write(request, status, body) {
+      mkdirSync(dir, { recursive: true });
+      const path = join(dir, fixtureName(request));
+      const fixture: Fixture = { request, status, body, recordedAt: new Date().toISOString() };
+      writeFileSync(`${path}.tmp`, JSON.stringify(fixture, null, 2));
+      renameSync(`${path}.tmp`, path);
+    },
+  };
+}
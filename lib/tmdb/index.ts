@@ -0,0 +1,11 @@
+export * from "./types";
+export {
+  createTMDBClient,
+  getTMDBClient,
+  getTMDBConfig,
+  requiredTMDBEnvVars,
+  type TMDBClient,
+  type TMDBConfig,
+} from "./client";
+export { createFixtureStore, type Fixture, type FixtureStore, type HttpMode } from "./fixtures";
+export { createTokenBucket, type TokenBucket } from "./rateLimit";
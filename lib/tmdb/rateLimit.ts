@@ -0,0 +1,58 @@
+// === Token Bucket ===
+// One bucket is shared by every caller of the client, so concurrent ingest
+// workers together stay under TMDB's rate limit. Waiters are served in order.
+
+export interface TokenBucket {
+  take(): Promise<void>;
+  // Holds every caller back, e.g. for a 429's Retry-After.
+  pause(ms: number): void;
+}
+
+export interface TokenBucketOptions {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createTokenBucket({ capacity, refillPerSecond }: TokenBucketOptions): TokenBucket {
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  let pausedUntil = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) / 1000) * refillPerSecond);
+    refilledAt = now;
+  };
+
+  const takeOne = async () => {
+    for (;;) {
+      const paused = pausedUntil - Date.now();
+      if (paused > 0) {
+        await sleep(paused);
+        continue;
+      }
+      refill();
+      if (tokens >= 1) break;
+      await sleep(((1 - tokens) / refillPerSecond) * 1000);
+    }
+    tokens -= 1;
+  };
+
+  return {
+    take() {
+      const turn = queue.then(takeOne);
+      queue = turn.catch(() => undefined);
+      return turn;
+    },
+
+    pause(ms) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+      // Start empty once the pause ends rather than with a burst saved up.
+      tokens = 0;
+      refilledAt = pausedUntil;
+    },
+  };
+}
@@ -0,0 +1,83 @@
+// === TMDB API responses ===
+// Only the fields the app reads; TMDB returns more.
+
+export interface TMDBPage<T> {
+  page: number;
+  results: T[];
+  total_pages: number;
+  total_results: number;
+}
+
+export interface TMDBDiscoverMovie {
+  id: number;
+  title: string;
+  overview: string;
+  release_date: string;
+  vote_average: number;
+  vote_count?: number;
+  popularity?: number;
+  genre_ids?: number[];
+}
+
+export interface TMDBDiscoverParams {
+  year: number;
+  page: number;
+}
+
+export interface TMDBCastMember {
+  name: string;
+  character?: string;
+  order: number;
+}
+
+export interface TMDBCrewMember {
+  name: string;
+  job: string;
+  department?: string;
+}
+
+export interface TMDBCredits {
+  id?: number;
+  cast: TMDBCastMember[];
+  crew: TMDBCrewMember[];
+}
+
+export interface TMDBKeywords {
+  id?: number;
+  keywords: { id?: number; name: string }[];
+}
+
+export interface TMDBMovieDetails {
+  id: number;
+  title?: string;
+  runtime: number | null;
+  tagline?: string;
+  genres?: { id: number; name: string }[];
+}
+
+// Details with `append_to_response=credits,keywords`
+export type TMDBMovieDetailsWithCredits = TMDBMovieDetails & {
+  credits?: Partial<TMDBCredits>;
+  keywords?: Partial<TMDBKeywords>;
+};
+
+export interface TMDBWatchProvider {
+  provider_name: string;
+  provider_id?: number;
+  display_priority?: number;
+}
+
+export interface TMDBRegionProviders {
+  link?: string;
+  flatrate?: TMDBWatchProvider[];
+  free?: TMDBWatchProvider[];
+  ads?: TMDBWatchProvider[];
+  rent?: TMDBWatchProvider[];
+  buy?: TMDBWatchProvider[];
+}
+
+export interface TMDBWatchProviders {
+  id?: number;
+  // Keyed by ISO 3166-1 region code
+  results: Record<string, TMDBRegionProviders>;
+}